@@ -0,0 +1,492 @@
+import { parseArgs } from "node:util";
+import {
+	parseSchedule,
+	stateService,
+	getIssueTracker,
+	useIssueTracker,
+	InMemoryIssueTracker,
+	describeBoard,
+} from "@/services";
+import type { ScheduleConfig, TaskConfig } from "@/services";
+import { issueCreator } from "@/core/issueCreator";
+import { deadlineHandler } from "@/core/deadlineHandler";
+import { reportGenerator } from "@/core/reportGenerator";
+import { bulkIssueCreator } from "@/utils/bulkIssueCreator";
+import { simulator, loadSimulationScript } from "@/utils/simulator";
+import { logger, clock, startup, workspaceContext, workspaceManager } from "@/utils";
+import type { WorkspaceContext } from "@/utils";
+
+const USAGE = `Usage: pm-manager <command> [options]
+
+Commands:
+  start                      Run the scheduler daemon (default)
+  validate                   Validate the environment and every schedule file
+  status                     Show per-category state and upcoming run times
+  create --category <name> [--force]
+                             Create today's issue for one task now, unless it already exists (alias: run-now)
+  close --category <name>    Run the deadline for one task now (alias: close-now)
+  report [--date <date>]     Publish the daily report (and weekly rollup, on its day) for a date (default: today)
+  import-state [--from <file>]
+                             Copy data/state.json (or <file>) into the SQLite state database
+  simulate --from <date> --to <date> [--script <file>]
+                             Replay a date range against a fake clock and print the timeline
+  repair-board               Restore missing Status options, fields and workflows on the existing board
+  help                       Show this message
+
+Options:
+  --dry-run                  Log GitHub mutations instead of performing them and keep state in memory
+  --workspace <name>         Workspace to run the command in (required with several SCHEDULE_PATHS)`;
+
+// Commands that touch GitHub or state and therefore honour --dry-run
+const DRY_RUN_COMMANDS = new Set(["start", "create", "close", "report", "repair-board"]);
+
+// Commands that run against a single workspace
+const WORKSPACE_COMMANDS = new Set(["status", "create", "close", "report", "import-state", "simulate", "repair-board"]);
+
+const COMMAND_ALIASES: Record<string, string> = {
+	"run-now": "create",
+	"close-now": "close",
+};
+
+export class Cli {
+	private loadScheduleOrExit(): ScheduleConfig {
+		const result = parseSchedule();
+
+		if (!result.success) {
+			console.error(`✖ ${workspaceContext.current()?.schedulePath ?? "schedule.yaml"} is invalid:`);
+			console.error(result.error);
+			process.exit(1);
+		}
+
+		clock.setTimezone(result.schedule.timezone);
+		return result.schedule;
+	}
+
+	private findTaskOrExit(schedule: ScheduleConfig, category: string | undefined): TaskConfig {
+		if (!category) {
+			console.error("✖ Missing required option --category");
+			process.exit(1);
+		}
+
+		const task = schedule.tasks.find((t) => t.category === category);
+		if (!task) {
+			console.error(`✖ No task with category "${category}" in schedule.yaml`);
+			console.error(`  Known categories: ${schedule.tasks.map((t) => t.category).join(", ")}`);
+			process.exit(1);
+		}
+
+		return task;
+	}
+
+	private formatTime(date: Date | null): string {
+		if (!date) return "-";
+		return clock.format(date, {
+			weekday: "short",
+			month: "short",
+			day: "numeric",
+			hour: "2-digit",
+			minute: "2-digit",
+			hourCycle: "h23",
+		});
+	}
+
+	private loadWorkspacesOrExit(): WorkspaceContext[] {
+		const { workspaces, failures } = workspaceManager.load();
+
+		for (const failure of failures) {
+			console.error(`✖ ${failure.schedulePath} is invalid:`);
+			console.error(failure.error);
+		}
+
+		if (workspaces.length === 0) {
+			process.exit(1);
+		}
+
+		return workspaces;
+	}
+
+	private selectWorkspaceOrExit(name: string | undefined): WorkspaceContext {
+		const workspaces = this.loadWorkspacesOrExit();
+
+		if (!name) {
+			if (workspaces.length > 1) {
+				console.error("✖ Several workspaces are configured, pick one with --workspace");
+				console.error(`  Known workspaces: ${workspaces.map((w) => w.name).join(", ")}`);
+				process.exit(1);
+			}
+			return workspaces[0]!;
+		}
+
+		const workspace = workspaces.find((w) => w.name === name);
+		if (!workspace) {
+			console.error(`✖ No workspace named "${name}"`);
+			console.error(`  Known workspaces: ${workspaces.map((w) => w.name).join(", ")}`);
+			process.exit(1);
+		}
+
+		return workspace;
+	}
+
+	/**
+	 * Routes every tracker call of the current workspace to an in-memory copy of its repo.
+	 * Reads (user, labels, board, existing issues) still come from GitHub so the run is realistic.
+	 */
+	private async enableDryRun(): Promise<void> {
+		const source = workspaceContext.current()!.github;
+		const tracker = new InMemoryIssueTracker({ source });
+
+		// Seed the issues a run looks at: open ones and closed incomplete ones
+		tracker.seed(
+			[...(await source.getIssuesByLabels([], "open")), ...(await source.getIssuesByLabels(["incomplete"], "closed"))],
+			await source.getLatestIssueNumber()
+		);
+
+		useIssueTracker(tracker);
+		stateService.detach();
+
+		logger.warn("Dry run enabled - no changes will be made to GitHub or local state");
+	}
+
+	// Startup sequence, scheduler and schedule watcher for the current workspace
+	private async startWorkspace(workspace: WorkspaceContext, dryRun: boolean): Promise<() => void> {
+		if (dryRun) {
+			await this.enableDryRun();
+		}
+
+		// Run startup sequence
+		const schedule = await startup.run();
+
+		// Get authenticated user
+		const username = await getIssueTracker().getAuthenticatedUser();
+
+		// Start scheduler
+		workspace.scheduler.start(schedule, username);
+
+		// Pick up schedule edits without a restart
+		return startup.watchSchedule();
+	}
+
+	async start(dryRun: boolean): Promise<void> {
+		logger.info("=".repeat(50));
+		logger.info("Task Manager - Starting");
+		logger.info("=".repeat(50));
+
+		const { workspaces, failures } = workspaceManager.load();
+		const running: WorkspaceContext[] = [];
+		const stopWatching: Array<() => void> = [];
+
+		const stopAll = () => {
+			stopWatching.forEach((stop) => stop());
+			running.forEach((workspace) => workspaceContext.run(workspace, () => workspace.scheduler.stop()));
+		};
+
+		const shutdown = (signal: string) => {
+			logger.info(`Received ${signal} signal`);
+			logger.info("Shutting down gracefully...");
+
+			stopAll();
+
+			logger.info("Shutdown complete");
+			process.exit(0);
+		};
+
+		// Graceful shutdown
+		process.on("SIGINT", () => shutdown("SIGINT"));
+		process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+		// Handle uncaught errors
+		process.on("uncaughtException", (error) => {
+			logger.error({ error }, "Uncaught exception");
+			stopAll();
+			process.exit(1);
+		});
+
+		process.on("unhandledRejection", (reason, promise) => {
+			logger.error({ reason, promise }, "Unhandled rejection");
+			stopAll();
+			process.exit(1);
+		});
+
+		for (const failure of failures) {
+			logger.error({ schedulePath: failure.schedulePath, error: failure.error }, "Workspace could not be loaded");
+		}
+
+		// One workspace failing to start leaves the others running
+		for (const workspace of workspaces) {
+			await workspaceContext.run(workspace, async () => {
+				try {
+					stopWatching.push(await this.startWorkspace(workspace, dryRun));
+					running.push(workspace);
+				} catch (error) {
+					logger.error({ error }, "Workspace failed to start");
+				}
+			});
+		}
+
+		if (running.length === 0) {
+			logger.error("Failed to start application, no workspace is running");
+			process.exit(1);
+		}
+
+		logger.info("=".repeat(50));
+		logger.info(
+			{ workspaces: running.map((w) => w.name), failed: workspaces.length + failures.length - running.length },
+			"Task Manager - Running"
+		);
+		logger.info("=".repeat(50));
+		logger.info("Press Ctrl+C to stop");
+	}
+
+	validate(): void {
+		// The environment is validated when config is first imported; reaching here means it passed
+		console.log("✔ Environment is valid");
+
+		const { workspaces, failures } = workspaceManager.load();
+
+		let templatesValid = true;
+
+		for (const workspace of workspaces) {
+			const result = parseSchedule(workspace.schedulePath);
+			if (!result.success) continue;
+
+			const { schedule } = result;
+
+			// Render every task once so template mistakes surface now rather than at creation time
+			const templateErrors = workspaceContext.run(workspace, () =>
+				schedule.tasks.flatMap((task) => {
+					const error = issueCreator.checkTemplates(task);
+					return error ? [`${task.category}: ${error}`] : [];
+				})
+			);
+
+			if (templateErrors.length > 0) {
+				templatesValid = false;
+				console.error(`✖ ${workspace.schedulePath} has invalid templates:`);
+				templateErrors.forEach((error) => console.error(`  ${error}`));
+				continue;
+			}
+
+			console.log(
+				`✔ ${workspace.schedulePath} is valid (workspace ${workspace.name}, ` +
+					`${schedule.tasks.length} tasks, timezone ${schedule.timezone})`
+			);
+		}
+
+		for (const failure of failures) {
+			console.error(`✖ ${failure.schedulePath} is invalid:`);
+			console.error(failure.error);
+		}
+
+		if (failures.length > 0 || !templatesValid) {
+			process.exit(1);
+		}
+	}
+
+	status(): void {
+		const schedule = this.loadScheduleOrExit();
+		const state = stateService.load();
+
+		console.log(`Timezone: ${schedule.timezone}    Today: ${clock.today()}`);
+		console.log("");
+
+		const rows = schedule.tasks.map((task) => {
+			const item = state.find((s) => s.category === task.category);
+			const streaks = stateService.getStreaks(task.category);
+			return {
+				category: task.category,
+				deadline: task.deadline,
+				lastCreated: item?.lastCreatedDate ?? "-",
+				deadlineProcessed: item?.deadlineProcessedDate ?? "-",
+				streak: streaks.current,
+				best: streaks.longest,
+				nextCreation: this.formatTime(bulkIssueCreator.getNextCreationTime(task.recurrence, task.category)),
+				nextDeadline: this.formatTime(deadlineHandler.getNextDeadlineTime(task.deadline)),
+			};
+		});
+
+		console.table(rows);
+
+		const untracked = state.filter((s) => !schedule.tasks.some((t) => t.category === s.category));
+		if (untracked.length > 0) {
+			console.log(`State entries not in schedule.yaml: ${untracked.map((s) => s.category).join(", ")}`);
+		}
+	}
+
+	async create(category: string | undefined, force: boolean): Promise<void> {
+		const schedule = this.loadScheduleOrExit();
+		const task = this.findTaskOrExit(schedule, category);
+
+		await startup.initializeState(schedule);
+
+		if (!force && !stateService.needsIssueCreation(task.category, clock.today())) {
+			const existing = stateService.getIssueForDate(task.category, clock.today());
+			console.log(
+				`✔ Today's issue for ${task.category} already exists${existing !== null ? ` (#${existing})` : ""}, use --force to create another`
+			);
+			return;
+		}
+
+		const username = await getIssueTracker().getAuthenticatedUser();
+
+		const issueNumber = await issueCreator.createIssueWithMigration(issueCreator.paramsForTask(task, username));
+
+		stateService.markIssueCreated(task.category, clock.today(), issueNumber);
+		console.log(`✔ Created issue #${issueNumber} for ${task.category}`);
+	}
+
+	async close(category: string | undefined): Promise<void> {
+		const schedule = this.loadScheduleOrExit();
+		const task = this.findTaskOrExit(schedule, category);
+
+		await startup.initializeState(schedule);
+		await deadlineHandler.processDeadlineForCategory(task.category, task.deadline, {
+			force: true,
+			onDeadline: task.onDeadline,
+		});
+
+		console.log(`✔ Deadline processed for ${task.category}`);
+	}
+
+	async report(date: string | undefined): Promise<void> {
+		const schedule = this.loadScheduleOrExit();
+
+		if (!schedule.reports) {
+			console.error("✖ No reports section in schedule.yaml");
+			process.exit(1);
+		}
+
+		if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+			console.error("✖ --date must be YYYY-MM-DD");
+			process.exit(1);
+		}
+
+		const reportDate = date ?? clock.today();
+		await reportGenerator.generate(schedule, reportDate);
+
+		console.log(`✔ Report published for ${reportDate}`);
+	}
+
+	importState(from: string | undefined): void {
+		try {
+			const result = stateService.importFromJson(from);
+			console.log(`✔ Imported ${result.categories} categories and ${result.migratedTodos} migrated todos`);
+		} catch (error) {
+			console.error(`✖ ${(error as Error).message}`);
+			process.exit(1);
+		}
+	}
+
+	async simulate(from: string | undefined, to: string | undefined, scriptPath: string | undefined): Promise<void> {
+		const schedule = this.loadScheduleOrExit();
+
+		if (!from || !to || !/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+			console.error("✖ simulate requires --from and --to as YYYY-MM-DD");
+			process.exit(1);
+		}
+
+		const script = scriptPath ? loadSimulationScript(scriptPath) : { default: "none" as const, days: {} };
+
+		// Keep the timeline readable; the simulated services log every step
+		logger.level = "warn";
+
+		const events = await simulator.run(schedule, from, to, script);
+		console.log(`Simulated ${from} to ${to} in ${schedule.timezone}`);
+		console.log(simulator.formatTimeline(events));
+	}
+
+	async repairBoard(): Promise<void> {
+		const board = workspaceContext.current()?.board ?? { title: "Task Manager" };
+
+		try {
+			const repairs = await getIssueTracker().repairKanbanBoard(board);
+			repairs.forEach((repair) => console.log(`✔ ${repair}`));
+			console.log(`✔ Board ${describeBoard(board)} ${repairs.length > 0 ? "repaired" : "needs no repairs"}`);
+		} catch (error) {
+			console.error(`✖ ${(error as Error).message}`);
+			process.exit(1);
+		}
+	}
+
+	async run(argv: string[]): Promise<void> {
+		const { positionals, values } = parseArgs({
+			args: argv,
+			allowPositionals: true,
+			options: {
+				category: { type: "string", short: "c" },
+				help: { type: "boolean", short: "h" },
+				"dry-run": { type: "boolean" },
+				from: { type: "string" },
+				to: { type: "string" },
+				script: { type: "string" },
+				date: { type: "string" },
+				force: { type: "boolean" },
+				workspace: { type: "string", short: "w" },
+			},
+		});
+
+		const rawCommand = positionals[0] ?? "start";
+		const command = COMMAND_ALIASES[rawCommand] ?? rawCommand;
+
+		if (values.help || command === "help") {
+			console.log(USAGE);
+			return;
+		}
+
+		const dryRun = Boolean(values["dry-run"]) && DRY_RUN_COMMANDS.has(command);
+
+		// start and validate cover every workspace
+		if (command === "start") {
+			await this.start(dryRun);
+			return;
+		}
+		if (command === "validate") {
+			this.validate();
+			return;
+		}
+
+		if (!WORKSPACE_COMMANDS.has(command)) {
+			console.error(`Unknown command: ${rawCommand}\n`);
+			console.error(USAGE);
+			process.exit(1);
+		}
+
+		const workspace = this.selectWorkspaceOrExit(values.workspace);
+		await workspaceContext.run(workspace, () => this.runInWorkspace(command, values, dryRun));
+	}
+
+	private async runInWorkspace(
+		command: string,
+		values: { category?: string; from?: string; to?: string; script?: string; date?: string; force?: boolean },
+		dryRun: boolean
+	): Promise<void> {
+		if (dryRun) {
+			await this.enableDryRun();
+		}
+
+		switch (command) {
+			case "status":
+				this.status();
+				return;
+			case "create":
+				await this.create(values.category, Boolean(values.force));
+				return;
+			case "close":
+				await this.close(values.category);
+				return;
+			case "report":
+				await this.report(values.date);
+				return;
+			case "import-state":
+				this.importState(values.from);
+				return;
+			case "simulate":
+				await this.simulate(values.from, values.to, values.script);
+				return;
+			case "repair-board":
+				await this.repairBoard();
+				return;
+		}
+	}
+}
+
+export const cli = new Cli();
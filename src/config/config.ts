@@ -16,6 +16,21 @@ const EnvSchema = z
 		GITHUB_PAT: z.string().min(1, "GITHUB_PAT is required and cannot be empty"),
 		GITHUB_REPO: z.string().min(1, "GITHUB_PAT is required and cannot be empty"),
 
+		// Comma-separated schedule files, one workspace each
+		SCHEDULE_PATHS: z
+			.string()
+			.default("schedule.yaml")
+			.transform((value) =>
+				value
+					.split(",")
+					.map((item) => item.trim())
+					.filter(Boolean)
+			)
+			.pipe(z.array(z.string()).min(1, "SCHEDULE_PATHS must list at least one schedule file")),
+
+		// Local state: data/state.json or data/state.db
+		STATE_BACKEND: z.enum(["json", "sqlite"]).default("json"),
+
 		// Runtime environment
 		NODE_ENV: z.enum(NodeEnv).default(NodeEnv.Development),
 	})
@@ -0,0 +1,70 @@
+import { getIssueTracker, describeBoard, stateService } from "@/services";
+import type { BoardItemFields, BoardRef, IssueTracker } from "@/services";
+import { todoMigrator } from "@/core/todoMigrator";
+import { logger, clock, workspaceContext } from "@/utils";
+
+/**
+ * Puts pm-manager's issues on the workspace's Projects board and keeps their fields current,
+ * rather than relying on the board's auto-add workflows. Board failures never fail the caller.
+ */
+export class BoardSync {
+	// Issues already moved to In Progress, per workspace
+	private started = new Map<string, Set<number>>();
+
+	private get tracker(): IssueTracker {
+		return getIssueTracker();
+	}
+
+	private get board(): BoardRef {
+		return workspaceContext.current()?.board ?? { title: "Task Manager" };
+	}
+
+	private startedIssues(): Set<number> {
+		const workspace = workspaceContext.current()?.name ?? "";
+		const issues = this.started.get(workspace) ?? new Set<number>();
+		this.started.set(workspace, issues);
+		return issues;
+	}
+
+	private async setFields(issueNumber: number, fields: BoardItemFields): Promise<boolean> {
+		try {
+			await this.tracker.setBoardItem(this.board, issueNumber, fields);
+			return true;
+		} catch (error) {
+			logger.warn({ issueNumber, board: describeBoard(this.board), error }, "Failed to update board item");
+			return false;
+		}
+	}
+
+	// A freshly created issue: Todo, due today
+	async addIssue(issueNumber: number, category: string, carriedTodos?: number): Promise<void> {
+		await this.setFields(issueNumber, { status: "Todo", deadline: clock.today(), category, carriedTodos });
+	}
+
+	/**
+	 * Moves each category's issue for today to In Progress once its first todo is ticked
+	 * (or its first sub-issue closed). Each issue is moved once per run of the process, and
+	 * GitHub is only asked about categories whose issue has not moved yet.
+	 */
+	async markStartedIssues(categories: string[]): Promise<void> {
+		const started = this.startedIssues();
+		const today = clock.today();
+
+		for (const category of categories) {
+			const issueNumber = stateService.getIssueForDate(category, today);
+			if (issueNumber === null || started.has(issueNumber)) continue;
+
+			// Today's issue was created today, so older issues need not be paged through
+			const issues = await this.tracker.getIssuesByLabels([category], "open", { since: clock.at(today, "00:00") });
+			const issue = issues.find((candidate) => candidate.number === issueNumber);
+			if (!issue || todoMigrator.countIssueTodos(issue).checked === 0) continue;
+
+			if (await this.setFields(issueNumber, { status: "In Progress" })) {
+				started.add(issueNumber);
+				logger.info({ issueNumber, category }, "Issue moved to In Progress");
+			}
+		}
+	}
+}
+
+export const boardSync = new BoardSync();
@@ -0,0 +1,132 @@
+export interface ChecklistItem {
+	// Text after the checkbox, as written (may include migration metadata)
+	text: string;
+	checked: boolean;
+	// Headings the item sits under, outermost first
+	headings: string[];
+	children: ChecklistItem[];
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+// - [ ] / * [x] / + [X] / 1. [ ] with any indentation
+export const CHECKBOX_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s*\[(\s*|x|X)\]\s*(.+)$/;
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+/;
+
+export class ChecklistParser {
+	private indentWidth(whitespace: string): number {
+		return whitespace.replace(/\t/g, "    ").length;
+	}
+
+	/**
+	 * Parses the checkboxes of a markdown document into a tree that follows list indentation,
+	 * recording the headings each item lives under. Fenced code blocks are skipped and
+	 * headings in `ignoredHeadings` are left out of the recorded heading path.
+	 */
+	parse(markdown: string, ignoredHeadings: string[] = []): ChecklistItem[] {
+		const roots: ChecklistItem[] = [];
+		const stack: Array<{ indent: number; item: ChecklistItem }> = [];
+		const headingStack: Array<{ level: number; title: string }> = [];
+		let inFence = false;
+
+		for (const line of markdown.split("\n")) {
+			if (FENCE_PATTERN.test(line)) {
+				inFence = !inFence;
+				continue;
+			}
+			if (inFence) continue;
+
+			const heading = line.match(HEADING_PATTERN);
+			if (heading) {
+				const level = heading[1]!.length;
+				while (headingStack.length > 0 && headingStack[headingStack.length - 1]!.level >= level) {
+					headingStack.pop();
+				}
+				headingStack.push({ level, title: heading[2]! });
+				stack.length = 0;
+				continue;
+			}
+
+			const checkbox = line.match(CHECKBOX_PATTERN);
+			if (checkbox) {
+				const indent = this.indentWidth(checkbox[1]!);
+				while (stack.length > 0 && stack[stack.length - 1]!.indent >= indent) {
+					stack.pop();
+				}
+
+				const item: ChecklistItem = {
+					text: checkbox[3]!.trim(),
+					checked: checkbox[2]!.trim() !== "",
+					headings: headingStack.map((h) => h.title).filter((title) => !ignoredHeadings.includes(title)),
+					children: [],
+				};
+
+				const parent = stack[stack.length - 1];
+				if (parent) {
+					parent.item.children.push(item);
+				} else {
+					roots.push(item);
+				}
+
+				stack.push({ indent, item });
+				continue;
+			}
+
+			if (line.trim() === "") continue;
+
+			// A plain list item closes checkboxes at its level or deeper
+			const listItem = line.match(LIST_ITEM_PATTERN);
+			const indent = this.indentWidth(listItem ? listItem[1]! : (line.match(/^\s*/)?.[0] ?? ""));
+			while (stack.length > 0 && stack[stack.length - 1]!.indent >= indent) {
+				stack.pop();
+			}
+		}
+
+		return roots;
+	}
+
+	/**
+	 * Keeps unchecked items and any checked parent that still has unchecked sub-items.
+	 */
+	pruneToUnchecked(items: ChecklistItem[]): ChecklistItem[] {
+		const kept: ChecklistItem[] = [];
+
+		for (const item of items) {
+			const children = this.pruneToUnchecked(item.children);
+			if (!item.checked || children.length > 0) {
+				kept.push({ ...item, children });
+			}
+		}
+
+		return kept;
+	}
+
+	// The markdown without its checkbox lines, e.g. once the items are tracked elsewhere; code blocks are kept
+	stripCheckboxes(markdown: string): string {
+		let inFence = false;
+
+		return markdown
+			.split("\n")
+			.filter((line) => {
+				if (FENCE_PATTERN.test(line)) {
+					inFence = !inFence;
+					return true;
+				}
+				return inFence || !CHECKBOX_PATTERN.test(line);
+			})
+			.join("\n");
+	}
+
+	flatten(items: ChecklistItem[]): ChecklistItem[] {
+		return items.flatMap((item) => [item, ...this.flatten(item.children)]);
+	}
+
+	render(items: ChecklistItem[], depth = 0): string[] {
+		return items.flatMap((item) => [
+			`${"  ".repeat(depth)}- [${item.checked ? "x" : " "}] ${item.text}`,
+			...this.render(item.children, depth + 1),
+		]);
+	}
+}
+
+export const checklistParser = new ChecklistParser();
@@ -1,43 +1,161 @@
-import { githubService } from "@/services";
+import { getIssueTracker, graceMinutes } from "@/services";
+import type { IssueData, IssueTracker, OccurrenceRecord, OnDeadlineConfig } from "@/services";
 import { todoMigrator } from "@/core";
 import { stateService } from "@/services";
-import { logger } from "@/utils";
+import { logger, clock } from "@/utils";
 
 export class DeadlineHandler {
-	private parseDeadlineTime(deadline: string): { hours: number; minutes: number } {
-		const parts = deadline.split(":").map(Number);
-		const hours = parts[0]!;
-		const minutes = parts[1]!;
-		return { hours, minutes };
+	private get tracker(): IssueTracker {
+		return getIssueTracker();
 	}
 
 	private isDeadlinePassed(deadline: string): boolean {
-		const now = new Date();
-		const { hours, minutes } = this.parseDeadlineTime(deadline);
+		return clock.now() >= clock.at(clock.today(), deadline);
+	}
+
+	// HH:MM at which the deadline's action runs: the deadline plus the task's grace period
+	closingTime(deadline: string, onDeadline?: OnDeadlineConfig): string {
+		const [hours, minutes] = deadline.split(":").map(Number);
+		const total = hours! * 60 + minutes! + graceMinutes(onDeadline);
+		return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+	}
+
+	/**
+	 * Open issues pm-manager created for the category. Manual issues that merely share the
+	 * label are left alone; only state from before issue numbers were tracked (a creation date
+	 * without any issue records) falls back to the label.
+	 */
+	private async getTrackedOpenIssues(category: string): Promise<IssueData[]> {
+		const tracked = stateService.getCreatedIssues(category);
+
+		if (tracked.length === 0) {
+			if ((stateService.getByCategory(category)?.lastCreatedDate ?? null) === null) {
+				logger.debug({ category }, "No tracked issues for category, nothing to close");
+				return [];
+			}
+
+			logger.warn({ category }, "State predates issue tracking, closing every open issue with the category label");
+			return this.tracker.getIssuesByLabels([category], "open");
+		}
+
+		const openIssues = await this.tracker.getIssuesByLabels([category], "open");
+
+		const trackedNumbers = new Set(tracked.map((entry) => entry.issueNumber));
+		return openIssues.filter((issue) => trackedNumbers.has(issue.number));
+	}
+
+	private async buildSummary(issue: IssueData): Promise<string> {
+		const { checked, total } = todoMigrator.countIssueTodos(issue);
+		const open = await todoMigrator.listOpenTodos(issue);
+
+		if (open.length === 0) {
+			return `✅ Deadline passed with all ${total} todos done.`;
+		}
+
+		const list = open.map((todo) => `- [ ] ${todo}`).join("\n");
+		return `📋 Deadline passed with ${checked}/${total} todos done.\n\nStill open:\n${list}`;
+	}
+
+	private async closeIssue(issue: IssueData, category: string, incomplete: boolean): Promise<void> {
+		await this.tracker.closeIssue(issue.number);
+
+		if (incomplete) {
+			await this.tracker.addLabels(issue.number, ["incomplete"]);
+			logger.info({ issueNumber: issue.number, category }, "Issue closed with incomplete todos");
+		} else {
+			logger.info({ issueNumber: issue.number, category }, "Issue closed");
+		}
+	}
+
+	/**
+	 * Applies the task's deadline action to an issue reaching its deadline. Finished issues are closed
+	 * under every action but comment-only; unfinished ones stay open unless the action is close.
+	 */
+	private async applyAction(
+		issue: IssueData,
+		category: string,
+		onDeadline: OnDeadlineConfig | undefined
+	): Promise<OccurrenceRecord["action"]> {
+		const incomplete = todoMigrator.isIssueIncomplete(issue);
+		const action = onDeadline?.action ?? "close";
+
+		if (action === "comment-only") {
+			await this.tracker.addComment(issue.number, await this.buildSummary(issue));
+			logger.info({ issueNumber: issue.number, category }, "Deadline summary posted, issue left open");
+			return "commented";
+		}
+
+		if (action === "close" || !incomplete) {
+			await this.closeIssue(issue, category, incomplete);
+			return "closed";
+		}
+
+		if (action === "reassign") {
+			const backup = onDeadline?.backup ?? [];
+			await this.tracker.setAssignees(issue.number, backup);
+			const mentions = backup.map((login) => `@${login}`).join(" ");
+			const summary = await this.buildSummary(issue);
+			await this.tracker.addComment(issue.number, `${mentions} ⏰ Deadline passed, handing this over.\n\n${summary}`);
+			logger.info({ issueNumber: issue.number, category, backup }, "Issue reassigned past its deadline");
+			return "reassigned";
+		}
+
+		await this.tracker.addLabels(issue.number, [onDeadline?.overdueLabel ?? "overdue"]);
+		logger.info({ issueNumber: issue.number, category }, "Issue left open as overdue");
+		return "overdue";
+	}
 
-		const deadlineTime = new Date();
-		deadlineTime.setHours(hours, minutes, 0, 0);
+	/**
+	 * An issue an earlier deadline left open: closed once finished (or when the task's action is
+	 * now close), keeping the outcome recorded at its own deadline. Comment-only issues are left alone.
+	 */
+	private async followUpLeftOpen(
+		issue: IssueData,
+		category: string,
+		onDeadline: OnDeadlineConfig | undefined,
+		record: OccurrenceRecord
+	): Promise<boolean> {
+		const incomplete = todoMigrator.isIssueIncomplete(issue);
+		const action = onDeadline?.action ?? "close";
+
+		if (action === "comment-only" || (action !== "close" && incomplete)) return false;
+
+		await this.closeIssue(issue, category, incomplete);
+
+		const overdueLabel = onDeadline?.overdueLabel ?? "overdue";
+		if (issue.labels.includes(overdueLabel)) {
+			await this.tracker.removeLabel(issue.number, overdueLabel);
+		}
 
-		return now >= deadlineTime;
+		stateService.recordOccurrence(category, { ...record, action: "closed" });
+		return true;
 	}
 
-	async processDeadlineForCategory(category: string, deadline: string): Promise<void> {
-		const today = new Date().toISOString().split("T")[0]!;
+	/**
+	 * Runs the task's deadline action (closing by default) on the category's tracked open issues
+	 * once its deadline and grace period have passed.
+	 * `force` skips the "already processed" and "deadline passed" checks (used by `close`).
+	 */
+	async processDeadlineForCategory(
+		category: string,
+		deadline: string,
+		options: { force?: boolean; onDeadline?: OnDeadlineConfig } = {}
+	): Promise<void> {
+		const today = clock.today();
 
 		// Check if already processed today
-		if (!stateService.needsDeadlineProcessing(category, today)) {
+		if (!options.force && !stateService.needsDeadlineProcessing(category, today)) {
 			logger.debug({ category }, "Deadline already processed today");
 			return;
 		}
 
 		// Check if deadline has passed
-		if (!this.isDeadlinePassed(deadline)) {
+		if (!options.force && !this.isDeadlinePassed(this.closingTime(deadline, options.onDeadline))) {
 			logger.debug({ category, deadline }, "Deadline not yet passed");
 			return;
 		}
 
-		// Get open issues for this category
-		const openIssues = await githubService.getIssuesByLabels([category], "open");
+		const openIssues = await this.getTrackedOpenIssues(category);
 
 		if (openIssues.length === 0) {
 			logger.info({ category }, "No open issues to process");
@@ -45,22 +163,36 @@ export class DeadlineHandler {
 			return;
 		}
 
+		const tracked = new Map(stateService.getCreatedIssues(category).map((entry) => [entry.issueNumber, entry.date]));
+		const recorded = new Map(stateService.getHistory(category).map((entry) => [entry.issueNumber, entry]));
 		let processedCount = 0;
 		let incompleteCount = 0;
+		let leftOpenCount = 0;
 
 		for (const issue of openIssues) {
-			// Close the issue
-			await githubService.closeIssue(issue.number);
+			const record = recorded.get(issue.number);
+			if (record) {
+				if (await this.followUpLeftOpen(issue, category, options.onDeadline, record)) processedCount++;
+				continue;
+			}
+
+			const action = await this.applyAction(issue, category, options.onDeadline);
 			processedCount++;
 
-			// Check for unchecked todos
-			if (todoMigrator.hasUncheckedTodos(issue.body)) {
-				await githubService.addLabels(issue.number, ["incomplete"]);
-				incompleteCount++;
-				logger.info({ issueNumber: issue.number, category }, "Issue closed with incomplete todos");
-			} else {
-				logger.info({ issueNumber: issue.number, category }, "Issue closed");
-			}
+			const incomplete = todoMigrator.isIssueIncomplete(issue);
+			if (incomplete) incompleteCount++;
+			if (action !== "closed") leftOpenCount++;
+
+			// The tracked date wins over createdAt, which is the real creation time for backfilled days
+			const { checked, total } = todoMigrator.countIssueTodos(issue);
+			stateService.recordOccurrence(category, {
+				date: tracked.get(issue.number) ?? clock.dateOf(new Date(issue.createdAt)),
+				issueNumber: issue.number,
+				outcome: incomplete ? "incomplete" : "complete",
+				checkedTodos: checked,
+				totalTodos: total,
+				action,
+			});
 		}
 
 		// Mark as processed
@@ -71,36 +203,48 @@ export class DeadlineHandler {
 				category,
 				processedCount,
 				incompleteCount,
+				leftOpenCount,
 			},
 			"Deadline processing complete"
 		);
 	}
 
-	async processAllDeadlines(categories: Array<{ category: string; deadline: string }>): Promise<void> {
+	async processAllDeadlines(
+		categories: Array<{ category: string; deadline: string; onDeadline?: OnDeadlineConfig | undefined }>
+	): Promise<void> {
 		logger.info({ count: categories.length }, "Processing deadlines for all categories");
 
-		for (const { category, deadline } of categories) {
+		const failed: string[] = [];
+
+		for (const { category, deadline, onDeadline } of categories) {
 			try {
-				await this.processDeadlineForCategory(category, deadline);
+				await this.processDeadlineForCategory(category, deadline, { onDeadline });
 			} catch (error) {
-				logger.error({ category, error }, "Failed to process deadline");
-				process.exit(1);
+				// Leave the category unmarked so the next run retries it
+				logger.error({ category, error }, "Failed to process deadline, continuing with the rest");
+				failed.push(category);
 			}
 		}
 
-		logger.info("All deadlines processed");
+		if (failed.length > 0) {
+			logger.warn({ failed }, "Some deadlines could not be processed");
+		} else {
+			logger.info("All deadlines processed");
+		}
 	}
 
-	getNextDeadlineTime(deadline: string): Date {
-		const now = new Date();
-		const { hours, minutes } = this.parseDeadlineTime(deadline);
+	// Whether every category's deadline job has run for `date`
+	allDeadlinesProcessed(categories: string[], date: string): boolean {
+		return categories.every((category) => !stateService.needsDeadlineProcessing(category, date));
+	}
 
-		const deadlineTime = new Date();
-		deadlineTime.setHours(hours, minutes, 0, 0);
+	getNextDeadlineTime(deadline: string): Date {
+		const today = clock.today();
+		const deadlineTime = clock.at(today, deadline);
 
 		// If deadline already passed today, schedule for tomorrow
-		if (now >= deadlineTime) {
-			deadlineTime.setDate(deadlineTime.getDate() + 1);
+		if (clock.now() >= deadlineTime) {
+			return clock.at(clock.addDays(today, 1), deadline);
 		}
 
 		return deadlineTime;
@@ -1,3 +1,10 @@
+export * from "@/core/checklistParser";
+export * from "@/core/templateRenderer";
+export * from "@/core/boardSync";
 export * from "@/core/issueCreator";
 export * from "@/core/todoMigrator";
 export * from "@/core/deadlineHandler";
+export * from "@/core/taskConditions";
+export * from "@/core/reminderNotifier";
+export * from "@/core/reportPublishers";
+export * from "@/core/reportGenerator";
@@ -1,19 +1,52 @@
-import { githubService } from "@/services";
-import { todoMigrator } from "@/core";
-import { logger } from "@/utils";
+import path from "path";
+import { getIssueTracker, stateService, currentSchedulePath } from "@/services";
+import type { CarryOverConfig, IssueTracker, TaskConfig } from "@/services";
+import type { CarriedTodo } from "@/core/todoMigrator";
+import type { TemplateVariables } from "@/core/templateRenderer";
+import { todoMigrator, templateRenderer, checklistParser, boardSync } from "@/core";
+import { logger, clock } from "@/utils";
 
 export interface CreateIssueParams {
 	category: string;
 	name: string;
+	// Title template; falls back to the name
+	title?: string;
 	description: string;
 	deadline: string;
-	assignee?: string;
+	assignees?: string[];
+	// Extra labels on top of the category label
+	labels?: string[];
+	milestone?: string;
+	type?: string;
+	carryOver?: CarryOverConfig;
+	// Track the checklist as sub-issues of the issue
+	subIssues?: boolean;
 }
 
 export class IssueCreator {
+	private get tracker(): IssueTracker {
+		return getIssueTracker();
+	}
+
+	// Task assignees win; otherwise the issue goes to the default assignee (the token owner)
+	paramsForTask(task: TaskConfig, defaultAssignee?: string): CreateIssueParams {
+		return {
+			category: task.category,
+			name: task.name,
+			title: task.title,
+			description: task.description,
+			deadline: task.deadline,
+			assignees: task.assignees ?? (defaultAssignee ? [defaultAssignee] : []),
+			labels: task.labels,
+			milestone: task.milestone,
+			type: task.type,
+			carryOver: task.carryOver,
+			subIssues: task.subIssues,
+		};
+	}
+
 	private formatDeadline(deadline: string): string {
-		const today = new Date();
-		const dateStr = today.toLocaleDateString("en-US", {
+		const dateStr = clock.format(clock.at(clock.today(), deadline), {
 			weekday: "short",
 			month: "short",
 			day: "numeric",
@@ -21,33 +54,164 @@ export class IssueCreator {
 		return `${dateStr} at ${deadline}`;
 	}
 
-	private buildIssueBody(description: string, deadline: string, migratedTodos: string[]): string {
-		let body = description;
+	private formatStreak(category: string): string {
+		const { current, longest } = stateService.getStreaks(category);
+		if (current === 0) return "";
+
+		return `\n🔥 ${current}-day streak${longest > current ? ` (best: ${longest})` : ""}`;
+	}
+
+	// Values available to title and description templates for today's issue
+	private templateVariables(params: CreateIssueParams, previousIssue: number | null, streak: number): TemplateVariables {
+		const today = clock.today();
+		const weekday = clock.weekday(today);
+
+		return {
+			date: today,
+			weekday: weekday.charAt(0).toUpperCase() + weekday.slice(1),
+			weekNumber: clock.isoWeek(today),
+			deadline: params.deadline,
+			streak,
+			previousIssue: previousIssue === null ? "" : `#${previousIssue}`,
+			category: params.category,
+			isWeekend: String(weekday === "saturday" || weekday === "sunday"),
+		};
+	}
+
+	// Includes are resolved next to the schedule file
+	private renderTemplates(params: CreateIssueParams, variables: TemplateVariables): { title: string; description: string } {
+		const baseDirectory = path.dirname(currentSchedulePath());
+
+		return {
+			title: templateRenderer.render(params.title ?? params.name, variables, baseDirectory).trim(),
+			description: templateRenderer.render(params.description, variables, baseDirectory),
+		};
+	}
+
+	/**
+	 * Renders a task's templates against sample values, so broken blocks, unknown variables and
+	 * missing includes show up before the task's issue is due. Returns the error message, if any.
+	 */
+	checkTemplates(task: TaskConfig): string | null {
+		const params = this.paramsForTask(task);
+
+		try {
+			this.renderTemplates(params, this.templateVariables(params, 1, 1));
+			return null;
+		} catch (error) {
+			return (error as Error).message;
+		}
+	}
+
+	private buildIssueBody(
+		params: CreateIssueParams,
+		description: string,
+		migratedTodos: CarriedTodo[],
+		previousIssue: number | null
+	): string {
+		const { description: annotated, remaining } = todoMigrator.mergeIntoDescription(description, migratedTodos);
+
+		let body = annotated;
+
+		body += `\n\n---\n**⏰ Deadline:** ${this.formatDeadline(params.deadline)}`;
+		body += this.formatStreak(params.category);
 
-		body += `\n\n---\n**⏰ Deadline:** ${this.formatDeadline(deadline)}`;
+		if (previousIssue !== null) {
+			body += `\n**Previous:** #${previousIssue}`;
+		}
 
-		if (migratedTodos.length > 0) {
-			body += todoMigrator.formatMigratedTodos(migratedTodos);
+		if (remaining.length > 0) {
+			body += todoMigrator.formatMigratedTodos(remaining);
 		}
 
 		return body;
 	}
 
-	async createIssue(params: CreateIssueParams, migratedTodos: string[] = []): Promise<number> {
-		const body = this.buildIssueBody(params.description, params.deadline, migratedTodos);
+	private stripChecklist(description: string): string {
+		return checklistParser.stripCheckboxes(description).replace(/\n{3,}/g, "\n\n").trim();
+	}
+
+	/**
+	 * Creates one sub-issue per unchecked top-level checklist item of the description, with its
+	 * sub-items as the body, then brings the carried todos along as sub-issues too.
+	 */
+	private async createSubIssues(
+		parentNumber: number,
+		params: CreateIssueParams,
+		description: string,
+		migratedTodos: CarriedTodo[]
+	): Promise<void> {
+		const carried = new Set(migratedTodos.map((todo) => todoMigrator.normalize(todo.text)));
+		const items = checklistParser
+			.parse(description)
+			.filter((item) => !item.checked && !carried.has(todoMigrator.normalize(item.text)));
+
+		for (const item of items) {
+			try {
+				const subIssueNumber = await this.tracker.createIssue({
+					title: item.text,
+					body: checklistParser.render(item.children).join("\n"),
+					labels: [],
+					assignees: params.assignees ?? [],
+				});
+				await this.tracker.addSubIssue(parentNumber, subIssueNumber);
+			} catch (error) {
+				// The parent exists already; failing here would create it twice on the retry
+				logger.warn({ parentNumber, todo: item.text, error }, "Failed to create sub-issue");
+			}
+		}
+
+		await todoMigrator.carryIntoParent(parentNumber, migratedTodos, params.assignees);
 
-		const assignees = params.assignee ? [params.assignee] : [];
+		// New and carried sub-issues alike are due with the parent
+		try {
+			for (const subIssue of await this.tracker.getSubIssues(parentNumber)) {
+				if (subIssue.state === "open") {
+					await boardSync.addIssue(subIssue.number, params.category);
+				}
+			}
+		} catch (error) {
+			logger.warn({ parentNumber, error }, "Failed to list sub-issues for the board");
+		}
+	}
 
-		const issueNumber = await githubService.createIssue({
-			title: params.name,
+	async createIssue(params: CreateIssueParams, migratedTodos: CarriedTodo[] = []): Promise<number> {
+		// The category's last tracked issue, linked both ways with the new one
+		const previousIssue = stateService.getLatestIssue(params.category)?.issueNumber ?? null;
+		const variables = this.templateVariables(params, previousIssue, stateService.getStreaks(params.category).current);
+		const { title, description } = this.renderTemplates(params, variables);
+		// In sub-issue mode the checklist lives in the sub-issues, so the body keeps only the prose
+		const body = params.subIssues
+			? this.buildIssueBody(params, this.stripChecklist(description), [], previousIssue)
+			: this.buildIssueBody(params, description, migratedTodos, previousIssue);
+
+		const issueNumber = await this.tracker.createIssue({
+			title,
 			body,
-			labels: [params.category],
-			assignees,
+			labels: [params.category, ...(params.labels ?? [])],
+			assignees: params.assignees ?? [],
+			milestone: params.milestone,
+			type: params.type,
 		});
 
+		await boardSync.addIssue(issueNumber, params.category, migratedTodos.length);
+
+		if (params.subIssues) {
+			await this.createSubIssues(issueNumber, params, description, migratedTodos);
+		}
+
+		if (previousIssue !== null) {
+			try {
+				await this.tracker.addComment(previousIssue, `➡️ Continued in #${issueNumber}`);
+			} catch (error) {
+				logger.warn({ previousIssue, issueNumber, error }, "Failed to link previous issue");
+			}
+		}
+
 		logger.info(
 			{
 				issueNumber,
+				previousIssue,
 				category: params.category,
 				migratedCount: migratedTodos.length,
 			},
@@ -59,13 +223,34 @@ export class IssueCreator {
 
 	async createIssueWithMigration(params: CreateIssueParams): Promise<number> {
 		// Get incomplete todos from previous issues
-		const migratedTodos = await todoMigrator.getIncompleteTodosForCategory(params.category);
+		const incompleteTodos = await todoMigrator.getIncompleteTodosForCategory(params.category);
+
+		// Drop or move out todos that slipped too often
+		const migratedTodos = await todoMigrator.applyCarryOverPolicy(
+			params.category,
+			incompleteTodos,
+			params.carryOver,
+			params.assignees
+		);
 
 		// Create the issue with migrated todos
 		const issueNumber = await this.createIssue(params, migratedTodos);
 
+		const today = clock.today();
+		stateService.recordMigratedTodos(
+			params.category,
+			migratedTodos.map((todo) => ({
+				date: today,
+				issueNumber,
+				sourceIssue: todo.sourceIssue,
+				text: todo.text,
+				carryCount: todo.carryCount,
+				firstSeen: todo.firstSeen,
+			}))
+		);
+
 		// Cleanup incomplete labels from old issues
-		if (migratedTodos.length > 0) {
+		if (incompleteTodos.length > 0) {
 			await todoMigrator.cleanupIncompleteLabelForCategory(params.category);
 		}
 
@@ -0,0 +1,66 @@
+import { getIssueTracker, stateService } from "@/services";
+import type { IssueTracker } from "@/services";
+import { todoMigrator } from "@/core";
+import { logger, clock } from "@/utils";
+
+export class ReminderNotifier {
+	private get tracker(): IssueTracker {
+		return getIssueTracker();
+	}
+
+	// "-90m" -> 90, "-2h" -> 120
+	parseOffsetMinutes(offset: string): number {
+		const value = Number(offset.slice(1, -1));
+		return offset.endsWith("h") ? value * 60 : value;
+	}
+
+	private formatRemaining(minutes: number): string {
+		if (minutes % 60 === 0) {
+			const hours = minutes / 60;
+			return `${hours} hour${hours === 1 ? "" : "s"}`;
+		}
+		return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+	}
+
+	private buildComment(assignees: string[], deadline: string, minutes: number, todos: string[]): string {
+		const mentions = assignees.map((login) => `@${login}`).join(" ");
+		const list = todos.map((todo) => `- [ ] ${todo}`).join("\n");
+
+		return `${mentions ? `${mentions} ` : ""}⏰ **${this.formatRemaining(minutes)}** left until the ${deadline} deadline.\n\nStill open:\n${list}`;
+	}
+
+	/**
+	 * Posts a reminder on the category's issue for today if it is still open with unchecked todos.
+	 * Manual issues sharing the label and issues left open by earlier deadlines are not reminded.
+	 */
+	async sendReminders(category: string, deadline: string, offset: string): Promise<void> {
+		const minutes = this.parseOffsetMinutes(offset);
+		const issueNumber = stateService.getIssueForDate(category, clock.today());
+		if (issueNumber === null) {
+			logger.debug({ category }, "No issue for today, skipping reminders");
+			return;
+		}
+
+		const openIssues = (await this.tracker.getIssuesByLabels([category], "open")).filter(
+			(issue) => issue.number === issueNumber
+		);
+
+		let remindedCount = 0;
+
+		for (const issue of openIssues) {
+			const todos = await todoMigrator.listOpenTodos(issue);
+
+			if (todos.length === 0) {
+				logger.debug({ issueNumber: issue.number, category }, "All todos checked, skipping reminder");
+				continue;
+			}
+
+			await this.tracker.addComment(issue.number, this.buildComment(issue.assignees, deadline, minutes, todos));
+			remindedCount++;
+		}
+
+		logger.info({ category, offset, remindedCount }, "Reminders processed");
+	}
+}
+
+export const reminderNotifier = new ReminderNotifier();
@@ -0,0 +1,255 @@
+import { getIssueTracker, stateService } from "@/services";
+import type { IssueData, IssueTracker, ScheduleConfig } from "@/services";
+import { todoMigrator } from "@/core/todoMigrator";
+import { createReportPublishers } from "@/core/reportPublishers";
+import type { ReportPublisher, ReportRef } from "@/core/reportPublishers";
+import { logger, clock } from "@/utils";
+
+export interface CategoryReport {
+	category: string;
+	name: string;
+	created: number[];
+	// Closed with every todo checked
+	closed: number[];
+	// Closed with unchecked todos left
+	incomplete: number[];
+	open: number[];
+	checkedTodos: number;
+	uncheckedTodos: number;
+}
+
+export interface DailyReport {
+	date: string;
+	categories: CategoryReport[];
+}
+
+export interface WeeklyReport {
+	from: string;
+	to: string;
+	days: DailyReport[];
+	// Per-category sums over the week
+	categories: CategoryReport[];
+}
+
+export class ReportGenerator {
+	private get tracker(): IssueTracker {
+		return getIssueTracker();
+	}
+
+	private emptyReport(category: string, name: string): CategoryReport {
+		return { category, name, created: [], closed: [], incomplete: [], open: [], checkedTodos: 0, uncheckedTodos: 0 };
+	}
+
+	private addIssue(report: CategoryReport, issue: IssueData): void {
+		const { checked, total } = todoMigrator.countIssueTodos(issue);
+
+		report.created.push(issue.number);
+		report.checkedTodos += checked;
+		report.uncheckedTodos += total - checked;
+
+		// Judged from the body or sub-issues rather than the "incomplete" label, which migration removes the next day
+		if (issue.state === "open") {
+			report.open.push(issue.number);
+		} else if (total > checked) {
+			report.incomplete.push(issue.number);
+		} else {
+			report.closed.push(issue.number);
+		}
+	}
+
+	/**
+	 * Per-day reports for `from` to `to`, built from the issue state tracks for each category and day.
+	 * The tracked date wins over createdAt, so backfilled issues count for the day they stand for;
+	 * manual issues sharing the label are not counted, and a day re-created with --force counts its latest issue.
+	 */
+	async collect(schedule: ScheduleConfig, from: string, to: string): Promise<DailyReport[]> {
+		const days: DailyReport[] = [];
+		for (let date = from; date <= to; date = clock.addDays(date, 1)) {
+			days.push({ date, categories: [] });
+		}
+
+		for (const task of schedule.tasks) {
+			const tracked = new Map<string, number>();
+			for (const entry of stateService.getCreatedIssues(task.category)) {
+				if (entry.date >= from && entry.date <= to) tracked.set(entry.date, entry.issueNumber);
+			}
+			if (tracked.size === 0) continue;
+
+			// Tracked issues were created on or after their day, so none is older than `from`
+			const numbers = new Set(tracked.values());
+			const issues = new Map(
+				(await this.tracker.getIssuesByLabels([task.category], "all", { since: clock.at(from, "00:00") }))
+					.filter((issue) => numbers.has(issue.number))
+					.map((issue) => [issue.number, issue])
+			);
+
+			for (const day of days) {
+				const issue = issues.get(tracked.get(day.date) ?? 0);
+				if (!issue) continue;
+
+				const report = this.emptyReport(task.category, task.name);
+				this.addIssue(report, issue);
+				day.categories.push(report);
+			}
+		}
+
+		return days;
+	}
+
+	private sum(reports: CategoryReport[]): CategoryReport[] {
+		const totals = new Map<string, CategoryReport>();
+
+		for (const report of reports) {
+			const total = totals.get(report.category) ?? this.emptyReport(report.category, report.name);
+			total.created.push(...report.created);
+			total.closed.push(...report.closed);
+			total.incomplete.push(...report.incomplete);
+			total.open.push(...report.open);
+			total.checkedTodos += report.checkedTodos;
+			total.uncheckedTodos += report.uncheckedTodos;
+			totals.set(report.category, total);
+		}
+
+		return [...totals.values()];
+	}
+
+	private formatIssues(numbers: number[]): string {
+		return numbers.length > 0 ? numbers.map((n) => `#${n}`).join(", ") : "-";
+	}
+
+	private formatTodos(checked: number, unchecked: number): string {
+		const total = checked + unchecked;
+		if (total === 0) return "-";
+		return `${checked}/${total} (${Math.round((checked / total) * 100)}%)`;
+	}
+
+	private formatTotals(reports: CategoryReport[]): string {
+		const [total] = this.sum(reports.map((report) => ({ ...report, category: "", name: "" })));
+		if (!total) return "No issues were created.";
+
+		return (
+			`**Totals:** ${total.created.length} created · ${total.closed.length} closed · ` +
+			`${total.incomplete.length} incomplete · ${total.open.length} still open · ` +
+			`todos done ${this.formatTodos(total.checkedTodos, total.uncheckedTodos)}`
+		);
+	}
+
+	private formatTable(rows: string[]): string[] {
+		if (rows.length === 0) return [];
+		return [
+			"| Task | Created | Closed | Incomplete | Still open | Todos done |",
+			"| --- | --- | --- | --- | --- | --- |",
+			...rows,
+			"",
+		];
+	}
+
+	private formatDay(date: string): string {
+		return clock.format(clock.at(date, "12:00"), { weekday: "short", month: "short", day: "numeric" });
+	}
+
+	dailyRef(date: string): ReportRef {
+		return { kind: "daily", date, title: `📊 Daily report: ${date}` };
+	}
+
+	weeklyRef(to: string): ReportRef {
+		return { kind: "weekly", date: to, title: `📊 Weekly report: ${clock.addDays(to, -6)} to ${to}` };
+	}
+
+	renderDaily(report: DailyReport): string {
+		const rows = report.categories.map(
+			(c) =>
+				`| ${c.name} (\`${c.category}\`) | ${this.formatIssues(c.created)} | ${this.formatIssues(c.closed)} | ` +
+				`${this.formatIssues(c.incomplete)} | ${this.formatIssues(c.open)} | ${this.formatTodos(c.checkedTodos, c.uncheckedTodos)} |`
+		);
+
+		return [
+			`Completion report for **${this.formatDay(report.date)}** (${clock.getTimezone()}).`,
+			"",
+			...this.formatTable(rows),
+			this.formatTotals(report.categories),
+		].join("\n");
+	}
+
+	// `links` holds a reference to each day's report, keyed by date
+	renderWeekly(report: WeeklyReport, links: Map<string, string | null>): string {
+		const rows = report.categories.map(
+			(c) =>
+				`| ${c.name} (\`${c.category}\`) | ${c.created.length} | ${c.closed.length} | ${c.incomplete.length} | ` +
+				`${c.open.length} | ${this.formatTodos(c.checkedTodos, c.uncheckedTodos)} |`
+		);
+
+		const days = report.days.map((day) => {
+			const created = day.categories.reduce((count, c) => count + c.created.length, 0);
+			const done = day.categories.reduce((count, c) => count + c.closed.length, 0);
+			return `- ${this.formatDay(day.date)}: ${links.get(day.date) ?? "no report"} (${done}/${created} closed cleanly)`;
+		});
+
+		return [
+			`Weekly rollup for **${this.formatDay(report.from)}** to **${this.formatDay(report.to)}** (${clock.getTimezone()}).`,
+			"",
+			...this.formatTable(rows),
+			this.formatTotals(report.categories),
+			"",
+			"### Daily reports",
+			...days,
+		].join("\n");
+	}
+
+	private async publishAll(
+		publishers: ReportPublisher[],
+		publish: (publisher: ReportPublisher) => Promise<void>
+	): Promise<void> {
+		for (const publisher of publishers) {
+			try {
+				await publish(publisher);
+			} catch (error) {
+				// One broken output should not keep the report from the others
+				logger.error({ publisher: publisher.constructor.name, error }, "Failed to publish report");
+			}
+		}
+	}
+
+	/**
+	 * Publishes the daily report for `date`, followed by the weekly rollup when `date`
+	 * is the configured weekly report day. Does nothing when reports are not configured.
+	 */
+	async generate(schedule: ScheduleConfig, date: string = clock.today()): Promise<void> {
+		const config = schedule.reports;
+		if (!config) return;
+
+		const publishers = createReportPublishers(config);
+		const weekly = config.weekly !== undefined && clock.weekday(date) === config.weekly;
+
+		const days = await this.collect(schedule, weekly ? clock.addDays(date, -6) : date, date);
+		const today = days[days.length - 1]!;
+
+		await this.publishAll(publishers, (publisher) =>
+			publisher.publish({ ...this.dailyRef(date), body: this.renderDaily(today) })
+		);
+
+		logger.info({ date, categories: today.categories.length }, "Daily report published");
+
+		if (!weekly) return;
+
+		const report: WeeklyReport = {
+			from: days[0]!.date,
+			to: date,
+			days,
+			categories: this.sum(days.flatMap((day) => day.categories)),
+		};
+
+		await this.publishAll(publishers, async (publisher) => {
+			const links = new Map<string, string | null>();
+			for (const day of days) {
+				links.set(day.date, await publisher.link(this.dailyRef(day.date)));
+			}
+
+			await publisher.publish({ ...this.weeklyRef(date), body: this.renderWeekly(report, links) });
+		});
+
+		logger.info({ from: report.from, to: report.to }, "Weekly report published");
+	}
+}
+
+export const reportGenerator = new ReportGenerator();
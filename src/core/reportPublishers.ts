@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import { getIssueTracker } from "@/services";
+import type { IssueData, IssueTracker, ReportsConfig } from "@/services";
+import { logger } from "@/utils";
+import { workspaceContext } from "@/utils/workspaceContext";
+
+export interface ReportRef {
+	kind: "daily" | "weekly";
+	// Day the report covers (daily) or ends on (weekly), YYYY-MM-DD
+	date: string;
+	title: string;
+}
+
+export interface ReportDocument extends ReportRef {
+	body: string;
+}
+
+/**
+ * Somewhere reports are written to. Publishing the same report again replaces it.
+ */
+export interface ReportPublisher {
+	publish(report: ReportDocument): Promise<void>;
+	// Markdown reference to a previously published report, or null if there is none
+	link(report: ReportRef): Promise<string | null>;
+}
+
+export const REPORT_LABEL = "pm-report";
+
+export class IssueReportPublisher implements ReportPublisher {
+	private get tracker(): IssueTracker {
+		return getIssueTracker();
+	}
+
+	// Hidden marker naming the report kind and date an issue was created for
+	private marker(report: Pick<ReportRef, "kind" | "date">): string {
+		return `<!-- pm-report ${report.kind} ${report.date} -->`;
+	}
+
+	private async reportIssues(): Promise<IssueData[]> {
+		return this.tracker.getIssuesByLabels([REPORT_LABEL], "all", { limit: 100 });
+	}
+
+	// Issues created before the marker was added are matched by title
+	private findReportIssue(issues: IssueData[], report: ReportRef): number | null {
+		const marker = this.marker(report);
+		return issues.find((issue) => issue.body.includes(marker) || issue.title === report.title)?.number ?? null;
+	}
+
+	// Only the latest report of each kind stays open
+	private async closeEarlierReports(issues: IssueData[], report: ReportRef): Promise<void> {
+		const pattern = new RegExp(`<!-- pm-report ${report.kind} (\\d{4}-\\d{2}-\\d{2}) -->`);
+
+		for (const issue of issues) {
+			const date = pattern.exec(issue.body)?.[1];
+			if (issue.state !== "open" || date === undefined || date >= report.date) continue;
+
+			await this.tracker.closeIssue(issue.number);
+			logger.info({ issueNumber: issue.number, kind: report.kind, date }, "Earlier report issue closed");
+		}
+	}
+
+	async publish(report: ReportDocument): Promise<void> {
+		const issues = await this.reportIssues();
+		const existing = this.findReportIssue(issues, report);
+		const body = `${report.body}\n\n${this.marker(report)}`;
+
+		if (existing !== null) {
+			await this.tracker.updateIssueBody(existing, body);
+			logger.info({ issueNumber: existing, kind: report.kind, date: report.date }, "Report issue updated");
+		} else {
+			// No category label, so the deadline handler leaves report issues alone
+			const issueNumber = await this.tracker.createIssue({
+				title: report.title,
+				body,
+				labels: [REPORT_LABEL],
+			});
+			logger.info({ issueNumber, kind: report.kind, date: report.date }, "Report issue created");
+		}
+
+		await this.closeEarlierReports(issues, report);
+	}
+
+	async link(report: ReportRef): Promise<string | null> {
+		const issueNumber = this.findReportIssue(await this.reportIssues(), report);
+		return issueNumber !== null ? `#${issueNumber}` : null;
+	}
+}
+
+export class MarkdownReportPublisher implements ReportPublisher {
+	constructor(private readonly directory: string) {}
+
+	private fileName(report: ReportRef): string {
+		return `${report.kind}-${report.date}.md`;
+	}
+
+	async publish(report: ReportDocument): Promise<void> {
+		const filePath = path.resolve(this.directory, this.fileName(report));
+
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, `# ${report.title}\n\n${report.body}\n`);
+
+		logger.info({ filePath, kind: report.kind, date: report.date }, "Report file written");
+	}
+
+	async link(report: ReportRef): Promise<string | null> {
+		const fileName = this.fileName(report);
+		if (!fs.existsSync(path.resolve(this.directory, fileName))) return null;
+
+		// Reports share a directory, so a relative link works from any of them
+		return `[${fileName}](./${fileName})`;
+	}
+}
+
+export function createReportPublishers(config: ReportsConfig): ReportPublisher[] {
+	// Workspaces with their own state namespace also get their own report directory
+	const directory = path.join(config.directory, workspaceContext.current()?.stateNamespace ?? "");
+
+	return config.outputs.map((output) =>
+		output === "issue" ? new IssueReportPublisher() : new MarkdownReportPublisher(directory)
+	);
+}
@@ -0,0 +1,110 @@
+import { getIssueTracker, stateService } from "@/services";
+import type { IssueTracker, ScheduleConfig, TaskConfig, WhenConditionConfig } from "@/services";
+import { todoMigrator } from "@/core/todoMigrator";
+import { clock } from "@/utils";
+import { matchesRecurrence } from "@/utils/recurrence";
+
+/**
+ * ready: create the issue now
+ * waiting: a prerequisite has not been decided yet, check again later in the day
+ * skip: a condition failed, no issue for this task on this date
+ */
+export type ConditionStatus = "ready" | "waiting" | "skip";
+
+export interface ConditionResult {
+	status: ConditionStatus;
+	reason?: string;
+}
+
+const READY: ConditionResult = { status: "ready" };
+
+export class TaskConditions {
+	private get tracker(): IssueTracker {
+		return getIssueTracker();
+	}
+
+	hasConditions(task: TaskConfig): boolean {
+		return task.dependsOn.length > 0 || task.when.length > 0;
+	}
+
+	// Outcome of one of the category's issues: from state once its deadline ran, otherwise from GitHub
+	private async issueOutcome(category: string, issueNumber: number, date: string): Promise<"open" | "complete" | "incomplete"> {
+		const recorded = stateService.getHistory(category).find((entry) => entry.issueNumber === issueNumber);
+		if (recorded) return recorded.outcome;
+
+		const issues = await this.tracker.getIssuesByLabels([category], "all", { since: clock.at(date, "00:00") });
+		const issue = issues.find((candidate) => candidate.number === issueNumber);
+		if (!issue || issue.state === "open") return "open";
+
+		return issue.labels.includes("incomplete") || todoMigrator.isIssueIncomplete(issue) ? "incomplete" : "complete";
+	}
+
+	private async checkDependency(schedule: ScheduleConfig, category: string, date: string): Promise<ConditionResult> {
+		const prerequisite = schedule.tasks.find((task) => task.category === category);
+		if (!prerequisite || !matchesRecurrence(prerequisite.recurrence, date)) {
+			return { status: "skip", reason: `${category} is not scheduled on ${date}` };
+		}
+
+		const issueNumber = stateService.getIssueForDate(category, date);
+		if (issueNumber === null) {
+			return { status: "waiting", reason: `${category} has no issue yet` };
+		}
+
+		switch (await this.issueOutcome(category, issueNumber, date)) {
+			case "open":
+				return { status: "waiting", reason: `${category} (#${issueNumber}) is still open` };
+			case "incomplete":
+				return { status: "skip", reason: `${category} (#${issueNumber}) closed with unchecked todos` };
+			default:
+				return READY;
+		}
+	}
+
+	private checkWhen(condition: WhenConditionConfig, date: string): ConditionResult {
+		const earlier = stateService.getCreatedIssues(condition.category).filter((entry) => entry.date < date);
+		const previous =
+			condition.occurrence === "yesterday"
+				? earlier.filter((entry) => entry.date === clock.addDays(date, -1)).pop()
+				: earlier.pop();
+
+		const history = stateService.getHistory(condition.category).filter((entry) => entry.date < date);
+		let recorded = history.find((entry) => entry.issueNumber === previous?.issueNumber);
+		if (!previous) {
+			// State from before issues were tracked only has the history
+			recorded = history
+				.filter((entry) => condition.occurrence === "last" || entry.date === clock.addDays(date, -1))
+				.pop();
+		}
+
+		if (!recorded) {
+			return previous
+				? { status: "waiting", reason: `${condition.category} (#${previous.issueNumber}) has not reached its deadline` }
+				: { status: "skip", reason: `${condition.category} has no ${condition.occurrence} occurrence` };
+		}
+
+		if (recorded.outcome !== condition.outcome) {
+			return { status: "skip", reason: `${condition.category} on ${recorded.date} was ${recorded.outcome}` };
+		}
+
+		return READY;
+	}
+
+	/**
+	 * Decides whether the task's issue for `date` can be created. Prerequisites are checked in order;
+	 * a skip anywhere wins over waiting, so a task never waits on something that can no longer happen.
+	 */
+	async evaluate(schedule: ScheduleConfig, task: TaskConfig, date: string): Promise<ConditionResult> {
+		const results = task.when.map((condition) => this.checkWhen(condition, date));
+		for (const category of task.dependsOn) {
+			results.push(await this.checkDependency(schedule, category, date));
+		}
+
+		return (
+			results.find((result) => result.status === "skip") ??
+			results.find((result) => result.status === "waiting") ??
+			READY
+		);
+	}
+}
+
+export const taskConditions = new TaskConditions();
@@ -0,0 +1,163 @@
+import fs from "fs";
+import path from "path";
+
+// Values a template can refer to; empty strings count as false in conditions
+export type TemplateVariables = Record<string, string | number>;
+
+type TemplateNode =
+	| { kind: "text"; text: string }
+	| { kind: "variable"; name: string }
+	| { kind: "block"; negate: boolean; condition: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface OpenBlock {
+	tag: "if" | "unless";
+	node: Extract<TemplateNode, { kind: "block" }>;
+	inElse: boolean;
+}
+
+const INCLUDE_PATTERN = /^[ \t]*!include[ \t]+(\S+)[ \t]*$/gm;
+const MAX_INCLUDE_DEPTH = 5;
+// A backslash in front (`\{{`) makes the braces literal text
+const TAG_PATTERN = /(?<!\\)\{\{\s*(#if|#unless|else|\/if|\/unless)?\s*(.*?)\s*\}\}/g;
+// A block tag alone on its line takes the line break with it, so blocks leave no blank lines behind
+const STANDALONE_BLOCK_TAG_PATTERN = /^[ \t]*(\{\{\s*(?:#if|#unless|else|\/if|\/unless)\b[^}]*\}\})[ \t]*\r?\n/gm;
+const ESCAPED_TAG_PATTERN = /\\\{\{/g;
+const CONDITION_PATTERN = /^(\w+)(?:\s*(==|!=|\bin\b)\s*(.+))?$/;
+
+export class TemplateError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "TemplateError";
+	}
+}
+
+/**
+ * Renders task titles and descriptions.
+ *
+ * - `{{name}}` inserts a variable; unknown names are an error
+ * - `\{{` is a literal `{{`, e.g. for `$\{{ secrets.TOKEN }}` in a GitHub Actions snippet
+ * - `{{#if cond}} ... {{else}} ... {{/if}}` and `{{#unless cond}} ... {{/unless}}` keep or drop a section,
+ *   where `cond` is `name`, `name == value`, `name != value` or `name in a, b, c` (case-insensitive)
+ * - a line `!include file.md` is replaced by that file, resolved next to the including file
+ */
+export class TemplateRenderer {
+	private expandIncludes(template: string, baseDirectory: string, depth: number): string {
+		return template.replace(INCLUDE_PATTERN, (_, file: string) => {
+			if (depth >= MAX_INCLUDE_DEPTH) {
+				throw new TemplateError(`!include ${file}: includes nested more than ${MAX_INCLUDE_DEPTH} levels deep`);
+			}
+
+			const filePath = path.resolve(baseDirectory, file);
+			let contents: string;
+			try {
+				contents = fs.readFileSync(filePath, "utf8");
+			} catch (error) {
+				throw new TemplateError(`!include ${file}: ${(error as Error).message}`);
+			}
+
+			return this.expandIncludes(contents.replace(/\r?\n$/, ""), path.dirname(filePath), depth + 1);
+		});
+	}
+
+	private parse(template: string): TemplateNode[] {
+		const root: TemplateNode[] = [];
+		const stack: OpenBlock[] = [];
+		const target = () => {
+			const open = stack[stack.length - 1];
+			if (!open) return root;
+			return open.inElse ? open.node.otherwise : open.node.then;
+		};
+		const pushText = (text: string) => target().push({ kind: "text", text: text.replace(ESCAPED_TAG_PATTERN, "{{") });
+
+		const source = template.replace(STANDALONE_BLOCK_TAG_PATTERN, "$1");
+		let position = 0;
+
+		for (const match of source.matchAll(TAG_PATTERN)) {
+			if (match.index > position) {
+				pushText(source.slice(position, match.index));
+			}
+			position = match.index + match[0].length;
+
+			const [, tag, argument = ""] = match;
+
+			if (tag === "#if" || tag === "#unless") {
+				if (!CONDITION_PATTERN.test(argument)) {
+					throw new TemplateError(`Invalid condition in ${match[0]}`);
+				}
+				const node: OpenBlock["node"] = {
+					kind: "block",
+					negate: tag === "#unless",
+					condition: argument,
+					then: [],
+					otherwise: [],
+				};
+				target().push(node);
+				stack.push({ tag: tag === "#if" ? "if" : "unless", node, inElse: false });
+			} else if (tag === "else") {
+				const open = stack[stack.length - 1];
+				if (!open || open.inElse) throw new TemplateError("{{else}} without a matching {{#if}}");
+				open.inElse = true;
+			} else if (tag === "/if" || tag === "/unless") {
+				const open = stack.pop();
+				if (!open || `/${open.tag}` !== tag) throw new TemplateError(`{{${tag}}} without a matching {{#${tag.slice(1)}}}`);
+			} else {
+				if (!/^\w+$/.test(argument)) throw new TemplateError(`Invalid variable ${match[0]} (write \\{{ for literal braces)`);
+				target().push({ kind: "variable", name: argument });
+			}
+		}
+
+		const unclosed = stack.pop();
+		if (unclosed) throw new TemplateError(`{{#${unclosed.tag} ${unclosed.node.condition}}} is never closed`);
+
+		if (position < source.length) {
+			pushText(source.slice(position));
+		}
+
+		return root;
+	}
+
+	private lookup(name: string, variables: TemplateVariables): string {
+		const value = variables[name];
+		if (value === undefined) {
+			throw new TemplateError(`Unknown template variable "${name}" (known: ${Object.keys(variables).join(", ")})`);
+		}
+		return String(value);
+	}
+
+	private evaluate(condition: string, variables: TemplateVariables): boolean {
+		const [, name, operator, operand = ""] = condition.match(CONDITION_PATTERN)!;
+		const value = this.lookup(name!, variables).toLowerCase();
+		const unquote = (text: string) => text.trim().replace(/^(["'])(.*)\1$/, "$2").toLowerCase();
+
+		switch (operator) {
+			case "==":
+				return value === unquote(operand);
+			case "!=":
+				return value !== unquote(operand);
+			case "in":
+				return operand.split(",").map(unquote).includes(value);
+			default:
+				return value !== "" && value !== "0" && value !== "false";
+		}
+	}
+
+	private renderNodes(nodes: TemplateNode[], variables: TemplateVariables): string {
+		return nodes
+			.map((node) => {
+				if (node.kind === "text") return node.text;
+				if (node.kind === "variable") return this.lookup(node.name, variables);
+
+				const matches = this.evaluate(node.condition, variables) !== node.negate;
+				return this.renderNodes(matches ? node.then : node.otherwise, variables);
+			})
+			.join("");
+	}
+
+	// Throws TemplateError for unbalanced blocks, unknown variables or unreadable includes
+	render(template: string, variables: TemplateVariables, baseDirectory: string): string {
+		const expanded = this.expandIncludes(template, baseDirectory, 0);
+		return this.renderNodes(this.parse(expanded), variables);
+	}
+}
+
+export const templateRenderer = new TemplateRenderer();
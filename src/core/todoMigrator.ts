@@ -1,52 +1,277 @@
-import { githubService } from "@/services";
-import { logger } from "@/utils";
+import { getIssueTracker } from "@/services";
+import type { CarryOverConfig, IssueData, IssueTracker } from "@/services";
+import { logger, clock } from "@/utils";
+import { checklistParser } from "@/core/checklistParser";
+import type { ChecklistItem } from "@/core/checklistParser";
+
+export interface CarriedTodo {
+	text: string;
+	// Date (YYYY-MM-DD) the todo first appeared
+	firstSeen: string;
+	// Times the todo has been moved to a new issue, including this one
+	carryCount: number;
+	// Most recent issue the todo was carried from
+	sourceIssue: number;
+	// Only true for a finished parent carried along with its unfinished sub-items
+	checked: boolean;
+	// Headings the todo sat under, outermost first
+	headings: string[];
+	children: CarriedTodo[];
+	// Open sub-issue holding the todo and its body without carry metadata, for tasks in sub-issue mode
+	subIssue?: { number: number; description: string };
+}
+
+interface TodoMetadata {
+	first: string;
+	carried: number;
+	from: number;
+}
+
+// Visible age hint followed by machine-readable metadata, appended to migrated todo lines
+const METADATA_PATTERN = /\s*(?:<sub>⏳[^<]*<\/sub>)?\s*<!--\s*pm-todo\s+(\{.*?\})\s*-->\s*$/;
+
+const MIGRATED_HEADING = "Migrated from previous day";
 
 export class TodoMigrator {
-	parseUncheckedTodos(issueBody: string): string[] {
-		const uncheckedTodos: string[] = [];
-		const lines = issueBody.split("\n");
-
-		for (const line of lines) {
-			const trimmed = line.trim();
-			// Match unchecked checkboxes: - [ ] or * [ ] or + [ ]
-			if (/^[-*+]\s*\[\s*\]\s*.+/.test(trimmed)) {
-				// Extract the todo text after the checkbox
-				const todoText = trimmed.replace(/^[-*+]\s*\[\s*\]\s*/, "").trim();
-				if (todoText) {
-					uncheckedTodos.push(todoText);
-				}
-			}
+	private get tracker(): IssueTracker {
+		return getIssueTracker();
+	}
+
+	// Splits a todo line's text into the plain text and its migration metadata, if any
+	splitMetadata(todoText: string): { text: string; metadata: TodoMetadata | null } {
+		const match = todoText.match(METADATA_PATTERN);
+		if (!match) return { text: todoText, metadata: null };
+
+		try {
+			return { text: todoText.replace(METADATA_PATTERN, "").trim(), metadata: JSON.parse(match[1]!) };
+		} catch {
+			return { text: todoText.replace(METADATA_PATTERN, "").trim(), metadata: null };
 		}
+	}
 
-		return uncheckedTodos;
+	private parseChecklist(issueBody: string): ChecklistItem[] {
+		// The migration heading is our own wrapper, not part of the todo's section path
+		return checklistParser.pruneToUnchecked(checklistParser.parse(issueBody, [MIGRATED_HEADING]));
+	}
+
+	// Texts of all unchecked todos at any depth, without migration metadata
+	parseUncheckedTodos(issueBody: string): string[] {
+		return checklistParser
+			.flatten(this.parseChecklist(issueBody))
+			.filter((item) => !item.checked)
+			.map((item) => this.splitMetadata(item.text).text)
+			.filter((text) => text.length > 0);
 	}
 
 	hasUncheckedTodos(issueBody: string): boolean {
 		return this.parseUncheckedTodos(issueBody).length > 0;
 	}
 
-	async getIncompleteTodosForCategory(category: string): Promise<string[]> {
-		const issues = await githubService.getIssuesByLabels([category, "incomplete"], "closed");
+	// Checkboxes at any depth, outside code blocks
+	countTodos(issueBody: string): { checked: number; total: number } {
+		const items = checklistParser.flatten(checklistParser.parse(issueBody));
+		return { checked: items.filter((item) => item.checked).length, total: items.length };
+	}
+
+	// An issue with sub-issues is judged by them (closed counts as done), any other by its checkboxes
+	countIssueTodos(issue: IssueData): { checked: number; total: number } {
+		if (issue.subIssues) {
+			return { checked: issue.subIssues.completed, total: issue.subIssues.total };
+		}
+		return this.countTodos(issue.body);
+	}
+
+	isIssueIncomplete(issue: IssueData): boolean {
+		if (issue.subIssues) {
+			return issue.subIssues.completed < issue.subIssues.total;
+		}
+		return this.hasUncheckedTodos(issue.body);
+	}
+
+	// Titles of open sub-issues, or the unchecked todos of the body
+	async listOpenTodos(issue: IssueData): Promise<string[]> {
+		if (issue.subIssues) {
+			const subIssues = await this.tracker.getSubIssues(issue.number);
+			return subIssues.filter((subIssue) => subIssue.state === "open").map((subIssue) => subIssue.title);
+		}
+		return this.parseUncheckedTodos(issue.body);
+	}
+
+	private toCarriedTodo(item: ChecklistItem, issue: IssueData): CarriedTodo {
+		const { text, metadata } = this.splitMetadata(item.text);
+		return {
+			text,
+			firstSeen: metadata?.first ?? clock.dateOf(new Date(issue.createdAt)),
+			carryCount: (metadata?.carried ?? 0) + 1,
+			sourceIssue: issue.number,
+			checked: item.checked,
+			headings: item.headings,
+			children: item.children.map((child) => this.toCarriedTodo(child, issue)).filter((child) => child.text.length > 0),
+		};
+	}
+
+	// Open sub-issues of a closed parent, with their carry history (kept in each sub-issue's body) advanced by one
+	private async parseCarriedSubIssues(issue: IssueData): Promise<CarriedTodo[]> {
+		const subIssues = await this.tracker.getSubIssues(issue.number);
+
+		return subIssues
+			.filter((subIssue) => subIssue.state === "open")
+			.map((subIssue) => {
+				const { text, metadata } = this.splitMetadata(subIssue.body);
+				return {
+					text: subIssue.title,
+					firstSeen: metadata?.first ?? clock.dateOf(new Date(subIssue.createdAt)),
+					carryCount: (metadata?.carried ?? 0) + 1,
+					sourceIssue: issue.number,
+					checked: false,
+					headings: [],
+					children: [],
+					subIssue: { number: subIssue.number, description: text },
+				};
+			});
+	}
+
+	/**
+	 * Unchecked todos of a closed issue, with their carry history advanced by one.
+	 * Checked parents are kept when they still have unchecked sub-items.
+	 */
+	parseCarriedTodos(issue: IssueData): CarriedTodo[] {
+		return this.parseChecklist(issue.body)
+			.map((item) => this.toCarriedTodo(item, issue))
+			.filter((todo) => todo.text.length > 0);
+	}
+
+	normalize(text: string): string {
+		return text.trim().toLowerCase().replace(/\s+/g, " ");
+	}
+
+	/**
+	 * Merges todos with the same text (case and whitespace insensitive) under the same headings,
+	 * keeping the earliest first-seen date, the highest carry count and the latest source issue.
+	 * Sub-items are merged the same way.
+	 */
+	mergeDuplicates(todos: CarriedTodo[]): CarriedTodo[] {
+		const merged = new Map<string, CarriedTodo>();
+
+		for (const todo of todos) {
+			// Each sub-issue stays its own todo
+			const key = [...todo.headings, this.normalize(todo.text), todo.subIssue?.number ?? ""].join("\n");
+			const existing = merged.get(key);
+
+			if (!existing) {
+				merged.set(key, { ...todo, children: [...todo.children] });
+				continue;
+			}
+
+			existing.firstSeen = todo.firstSeen < existing.firstSeen ? todo.firstSeen : existing.firstSeen;
+			existing.carryCount = Math.max(existing.carryCount, todo.carryCount);
+			existing.sourceIssue = Math.max(existing.sourceIssue, todo.sourceIssue);
+			existing.checked = existing.checked && todo.checked;
+			existing.children.push(...todo.children);
+		}
 
-		const allTodos: string[] = [];
+		return [...merged.values()].map((todo) => ({ ...todo, children: this.mergeDuplicates(todo.children) }));
+	}
+
+	async getIncompleteTodosForCategory(category: string): Promise<CarriedTodo[]> {
+		const issues = await this.tracker.getIssuesByLabels([category, "incomplete"], "closed");
+
+		const allTodos: CarriedTodo[] = [];
 		for (const issue of issues) {
-			const todos = this.parseUncheckedTodos(issue.body);
-			allTodos.push(...todos);
+			allTodos.push(...(issue.subIssues ? await this.parseCarriedSubIssues(issue) : this.parseCarriedTodos(issue)));
 		}
 
-		logger.info({ category, issueCount: issues.length, todoCount: allTodos.length }, "Extracted incomplete todos");
+		const todos = this.mergeDuplicates(allTodos);
+
+		logger.info(
+			{ category, issueCount: issues.length, todoCount: todos.length, duplicateCount: allTodos.length - todos.length },
+			"Extracted incomplete todos"
+		);
 
-		return allTodos;
+		return todos;
+	}
+
+	/**
+	 * Applies the task's carry-over policy to todos above the carry limit:
+	 * they are dropped, or moved into their own "escalated" or backlog issue.
+	 * Returns the todos that should still be carried into the new issue.
+	 */
+	async applyCarryOverPolicy(
+		category: string,
+		todos: CarriedTodo[],
+		carryOver: CarryOverConfig | undefined,
+		assignees: string[] = []
+	): Promise<CarriedTodo[]> {
+		if (!carryOver) return todos;
+
+		const keep = todos.filter((todo) => todo.carryCount <= carryOver.maxCarries);
+		const overdue = todos.filter((todo) => todo.carryCount > carryOver.maxCarries);
+
+		for (const todo of overdue) {
+			if (carryOver.policy === "drop") {
+				if (todo.subIssue) {
+					await this.tracker.closeIssue(todo.subIssue.number);
+				}
+				logger.info({ category, todo: todo.text, carryCount: todo.carryCount }, "Dropped todo over carry limit");
+				continue;
+			}
+
+			const label = carryOver.policy === "escalate" ? "escalated" : carryOver.backlogLabel;
+
+			// A sub-issue already is an issue of its own; it is labelled and left behind instead of carried
+			if (todo.subIssue) {
+				await this.tracker.addLabels(todo.subIssue.number, [label]);
+				logger.info({ category, todo: todo.text, issueNumber: todo.subIssue.number, label }, "Left sub-issue over carry limit");
+				continue;
+			}
+
+			// A retry after a failed issue creation finds the issue it already moved the todo to
+			const marker = this.carryOverMarker(category, todo);
+			const moved = await this.findMovedTodoIssue(label, marker);
+			if (moved !== null) {
+				logger.info(
+					{ category, todo: todo.text, issueNumber: moved, label },
+					"Todo over carry limit already has its own issue"
+				);
+				continue;
+			}
+
+			// No category label, so the deadline handler leaves the issue alone
+			const issueNumber = await this.tracker.createIssue({
+				title: todo.text,
+				body:
+					`Carried over ${todo.carryCount} times since ${todo.firstSeen} in \`${category}\` ` +
+					`(last seen in #${todo.sourceIssue}).\n\n${this.renderTodos([todo]).join("\n")}\n\n${marker}`,
+				labels: [label],
+				assignees,
+			});
+
+			logger.info({ category, todo: todo.text, issueNumber, label }, "Moved todo over carry limit to its own issue");
+		}
+
+		return keep;
+	}
+
+	// Hidden marker naming the category, source issue and todo a carry-over issue was created for
+	private carryOverMarker(category: string, todo: CarriedTodo): string {
+		// ">" is escaped so a todo containing "-->" cannot end the comment early
+		const data = JSON.stringify({ category, from: todo.sourceIssue, text: this.normalize(todo.text) }).replace(/>/g, "\\u003e");
+		return `<!-- pm-carry-over ${data} -->`;
+	}
+
+	private async findMovedTodoIssue(label: string, marker: string): Promise<number | null> {
+		const issues = await this.tracker.getIssuesByLabels([label], "all", { limit: 100 });
+		return issues.find((issue) => issue.body.includes(marker))?.number ?? null;
 	}
 
 	async cleanupIncompleteLabelForCategory(category: string): Promise<void> {
-		const issues = await githubService.getIssuesByLabels([category, "incomplete"], "closed");
+		const issues = await this.tracker.getIssuesByLabels([category, "incomplete"], "closed");
 
 		for (const issue of issues) {
 			// GitHub API doesn't have a "remove label" that preserves others easily,
 			// so we need to remove the label via DELETE endpoint
 			try {
-				await githubService.removeLabel(issue.number, "incomplete");
+				await this.tracker.removeLabel(issue.number, "incomplete");
 				logger.debug({ issueNumber: issue.number }, "Removed incomplete label");
 			} catch (error) {
 				logger.warn({ issueNumber: issue.number, error }, "Failed to remove incomplete label");
@@ -56,11 +281,157 @@ export class TodoMigrator {
 		logger.info({ category, count: issues.length }, "Cleaned up incomplete labels");
 	}
 
-	formatMigratedTodos(todos: string[]): string {
+	/**
+	 * Sub-issue mode: moves each carried todo's open sub-issue under the new parent and
+	 * refreshes its carry metadata; todos from checklist-mode issues get a new sub-issue.
+	 * Failures are logged per todo so one bad link doesn't lose the rest.
+	 */
+	async carryIntoParent(parentNumber: number, todos: CarriedTodo[], assignees: string[] = []): Promise<void> {
+		for (const todo of todos) {
+			try {
+				if (todo.subIssue) {
+					const body = `${todo.subIssue.description}\n\n${this.formatMetadata(todo)}`.trimStart();
+					await this.tracker.updateIssueBody(todo.subIssue.number, body);
+					await this.tracker.addSubIssue(parentNumber, todo.subIssue.number, { replaceParent: true });
+					continue;
+				}
+
+				const body = [...this.renderTodos(todo.children), "", this.formatMetadata(todo)].join("\n").trimStart();
+				const issueNumber = await this.tracker.createIssue({
+					title: todo.text,
+					body,
+					labels: [],
+					assignees,
+				});
+				await this.tracker.addSubIssue(parentNumber, issueNumber);
+			} catch (error) {
+				logger.warn({ parentNumber, todo: todo.text, error }, "Failed to carry todo as a sub-issue");
+			}
+		}
+
+		logger.info({ parentNumber, count: todos.length }, "Carried todos into sub-issues");
+	}
+
+	private formatMetadata(todo: CarriedTodo): string {
+		const metadata: TodoMetadata = { first: todo.firstSeen, carried: todo.carryCount, from: todo.sourceIssue };
+		const hint = `<sub>⏳ carried ${todo.carryCount}× since ${todo.firstSeen} · #${todo.sourceIssue}</sub>`;
+		return `${hint}<!-- pm-todo ${JSON.stringify(metadata)} -->`;
+	}
+
+	private toChecklistItem(todo: CarriedTodo): ChecklistItem {
+		return {
+			text: `${todo.text} ${this.formatMetadata(todo)}`,
+			checked: todo.checked,
+			headings: todo.headings,
+			children: todo.children.map((child) => this.toChecklistItem(child)),
+		};
+	}
+
+	private renderTodos(todos: CarriedTodo[]): string[] {
+		return checklistParser.render(todos.map((todo) => this.toChecklistItem(todo)));
+	}
+
+	/**
+	 * Puts carried todos back where they came from in the new issue's description:
+	 * a todo the description already lists gets the carry metadata on its own line, and
+	 * todos whose section heading exists in the description are appended to that section.
+	 * Returns the merged description and the todos that found no place in it.
+	 */
+	mergeIntoDescription(description: string, todos: CarriedTodo[]): { description: string; remaining: CarriedTodo[] } {
+		// Only plain todos can be annotated in place; sub-item trees are appended whole
+		const leaves = new Map(
+			todos.filter((todo) => todo.children.length === 0).map((todo) => [this.normalize(todo.text), todo])
+		);
+		const annotated = new Set<CarriedTodo>();
+
+		const lines = description.split("\n").map((line) => {
+			const match = line.match(/^(\s*(?:[-*+]|\d+[.)])\s*\[\s*\]\s*)(.+?)\s*$/);
+			if (!match) return line;
+
+			const key = this.normalize(this.splitMetadata(match[2]!).text);
+			const todo = leaves.get(key);
+			if (!todo) return line;
+
+			leaves.delete(key);
+			annotated.add(todo);
+			return `${match[1]}${todo.text} ${this.formatMetadata(todo)}`;
+		});
+
+		const remaining: CarriedTodo[] = [];
+
+		for (const todo of todos) {
+			if (annotated.has(todo)) continue;
+
+			const section = this.findSection(lines, todo.headings[todo.headings.length - 1]);
+			if (!section) {
+				remaining.push(todo);
+				continue;
+			}
+
+			lines.splice(section.end, 0, ...this.renderTodos([todo]));
+		}
+
+		return { description: lines.join("\n"), remaining };
+	}
+
+	// Line index just after the last non-blank line of the section under `heading`
+	private findSection(lines: string[], heading: string | undefined): { end: number } | null {
+		if (!heading) return null;
+
+		const start = lines.findIndex((line) => {
+			const match = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+			return match !== null && this.normalize(match[1]!) === this.normalize(heading);
+		});
+		if (start === -1) return null;
+
+		const level = lines[start]!.match(/^#+/)![0].length;
+		let end = start + 1;
+		let lastContent = start + 1;
+
+		for (; end < lines.length; end++) {
+			const next = lines[end]!.match(/^(#{1,6})\s/);
+			if (next && next[1]!.length <= level) break;
+			if (lines[end]!.trim() !== "") lastContent = end + 1;
+		}
+
+		return { end: lastContent };
+	}
+
+	/**
+	 * The "Migrated from previous day" section, with sub-headings rebuilding the
+	 * section path each todo came from.
+	 */
+	formatMigratedTodos(todos: CarriedTodo[]): string {
 		if (todos.length === 0) return "";
 
-		const formatted = todos.map((todo) => `- [ ] ${todo}`).join("\n");
-		return `\n\n## Migrated from previous day\n${formatted}`;
+		// Todos without a heading first, then grouped by heading path in order of appearance
+		const groups = new Map<string, CarriedTodo[]>();
+		for (const todo of [...todos].sort((a, b) => Number(a.headings.length > 0) - Number(b.headings.length > 0))) {
+			const key = todo.headings.join("\n");
+			groups.set(key, [...(groups.get(key) ?? []), todo]);
+		}
+
+		const lines: string[] = [`## ${MIGRATED_HEADING}`];
+		let previousPath: string[] = [];
+
+		for (const group of groups.values()) {
+			const path = group[0]!.headings;
+
+			// Only open the headings that differ from the previous group's path
+			let shared = 0;
+			while (shared < path.length && shared < previousPath.length && path[shared] === previousPath[shared]) shared++;
+			// Returning to a parent section after a sub-section needs its heading again
+			if (shared === path.length && path.length < previousPath.length) shared = path.length - 1;
+
+			for (let depth = shared; depth < path.length; depth++) {
+				lines.push("", `${"#".repeat(Math.min(3 + depth, 6))} ${path[depth]}`);
+			}
+
+			lines.push(...this.renderTodos(group));
+			previousPath = path;
+		}
+
+		return `\n\n${lines.join("\n")}`;
 	}
 }
 
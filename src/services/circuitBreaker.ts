@@ -0,0 +1,107 @@
+import { EventEmitter } from "events";
+import { logger } from "@/utils";
+import { CircuitOpenError, GitHubError, RateLimitError, SecondaryRateLimitError } from "@/services/errors";
+
+export interface CircuitBreakerOptions {
+	// Consecutive retryable failures before the circuit opens
+	failureThreshold?: number;
+	// How long the circuit stays open when no reset time is known
+	cooldownMs?: number;
+}
+
+interface CircuitBreakerEvents {
+	open: [resumeAt: Date];
+	close: [];
+}
+
+/**
+ * Stops calling GitHub after repeated transient failures or an exhausted rate limit,
+ * and lets a single trial call through once the pause is over; other calls are rejected
+ * until the trial settles. A failed trial opens the circuit again.
+ * Emits "open" with the resume time and "close" when calls succeed again.
+ */
+export class CircuitBreaker extends EventEmitter<CircuitBreakerEvents> {
+	private failures = 0;
+	private openUntil: Date | null = null;
+	// A trial call is in flight after the pause
+	private probing = false;
+	private failureThreshold: number;
+	private cooldownMs: number;
+
+	constructor(options: CircuitBreakerOptions = {}) {
+		super();
+		this.failureThreshold = options.failureThreshold ?? 5;
+		this.cooldownMs = options.cooldownMs ?? 5 * 60_000;
+	}
+
+	isOpen(): boolean {
+		return this.openUntil !== null && Date.now() < this.openUntil.getTime();
+	}
+
+	async execute<T>(fn: () => Promise<T>): Promise<T> {
+		const trial = this.openUntil !== null;
+		if (this.openUntil) {
+			if (this.isOpen() || this.probing) {
+				throw new CircuitOpenError(this.openUntil);
+			}
+			this.probing = true;
+		}
+
+		try {
+			const result = await fn();
+			this.onSuccess();
+			return result;
+		} catch (error) {
+			this.onFailure(error, trial);
+			throw error;
+		} finally {
+			if (trial) this.probing = false;
+		}
+	}
+
+	private onSuccess(): void {
+		const wasOpen = this.openUntil !== null;
+
+		this.failures = 0;
+		this.openUntil = null;
+
+		if (wasOpen) {
+			logger.info("GitHub calls succeeding again, circuit closed");
+			this.emit("close");
+		}
+	}
+
+	private onFailure(error: unknown, trial: boolean): void {
+		if (!(error instanceof GitHubError)) return;
+
+		// Non-retryable errors (404, 422, permissions) say nothing about GitHub's health,
+		// though an answer to the trial call shows GitHub is reachable again
+		if (!error.retryable) {
+			if (trial) this.onSuccess();
+			return;
+		}
+
+		if (error instanceof RateLimitError) {
+			this.open(error.resetAt);
+			return;
+		}
+
+		if (error instanceof SecondaryRateLimitError && error.retryAfterMs !== undefined) {
+			this.open(new Date(Date.now() + Math.max(error.retryAfterMs, this.cooldownMs)));
+			return;
+		}
+
+		this.failures++;
+		if (trial || this.failures >= this.failureThreshold) {
+			this.open(new Date(Date.now() + this.cooldownMs));
+		}
+	}
+
+	private open(resumeAt: Date): void {
+		this.openUntil = resumeAt;
+		this.failures = 0;
+
+		logger.warn({ resumeAt: resumeAt.toISOString() }, "Circuit opened, pausing GitHub calls");
+		this.emit("open", resumeAt);
+	}
+}
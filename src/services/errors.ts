@@ -0,0 +1,197 @@
+export interface GitHubErrorOptions {
+	status?: number;
+	retryable?: boolean;
+	// How long GitHub asked us to wait before trying again
+	retryAfterMs?: number;
+	cause?: unknown;
+}
+
+export class GitHubError extends Error {
+	readonly status: number | undefined;
+	readonly retryable: boolean;
+	readonly retryAfterMs: number | undefined;
+
+	constructor(message: string, options: GitHubErrorOptions = {}) {
+		super(message, { cause: options.cause });
+		this.name = new.target.name;
+		this.status = options.status;
+		this.retryable = options.retryable ?? false;
+		this.retryAfterMs = options.retryAfterMs;
+	}
+}
+
+// 401: the token is missing, expired or revoked
+export class AuthenticationError extends GitHubError {}
+
+// 403 that is not a rate limit: the token lacks a scope or access to the resource
+export class PermissionError extends GitHubError {}
+
+// 404: the repository, issue, label or project does not exist
+export class NotFoundError extends GitHubError {}
+
+// Primary rate limit exhausted; resets at a fixed time
+export class RateLimitError extends GitHubError {
+	readonly resetAt: Date;
+
+	constructor(message: string, resetAt: Date, options: GitHubErrorOptions = {}) {
+		super(message, { ...options, retryable: true, retryAfterMs: Math.max(0, resetAt.getTime() - Date.now()) });
+		this.resetAt = resetAt;
+	}
+}
+
+// Secondary (abuse) rate limit; GitHub asks to back off for a while
+export class SecondaryRateLimitError extends GitHubError {}
+
+// 5xx responses and network failures
+export class TransientError extends GitHubError {}
+
+// Thrown without calling GitHub while the circuit breaker is open
+export class CircuitOpenError extends GitHubError {
+	readonly resumeAt: Date;
+
+	constructor(resumeAt: Date) {
+		super(`GitHub calls paused until ${resumeAt.toISOString()}`, { retryable: true });
+		this.resumeAt = resumeAt;
+	}
+}
+
+const DEFAULT_SECONDARY_BACKOFF_MS = 60_000;
+
+// Socket and DNS failures worth retrying
+const NETWORK_ERROR_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "EPIPE"]);
+
+// Failures before anything was sent: the connection was refused or the host did not resolve
+const UNSENT_ERROR_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"]);
+
+// Fields of Octokit request/GraphQL errors and Node system errors that the mapping reads
+interface ErrorFields {
+	status?: unknown;
+	message?: unknown;
+	code?: unknown;
+	// GraphQL error entries
+	type?: unknown;
+	cause?: unknown;
+	errors?: unknown;
+	response?: { headers?: Record<string, string | undefined> };
+}
+
+function fieldsOf(err: unknown): ErrorFields {
+	return typeof err === "object" && err !== null ? (err as ErrorFields) : {};
+}
+
+// The error followed by its causes, since fetch wraps socket errors in a TypeError("fetch failed")
+function causeChain(err: unknown): unknown[] {
+	const chain: unknown[] = [];
+	for (let current = err; current && chain.length < 5; current = fieldsOf(current).cause) {
+		chain.push(current);
+	}
+	return chain;
+}
+
+function hasErrorCode(err: unknown, codes: Set<string>): boolean {
+	return causeChain(err).some((current) => {
+		const { code } = fieldsOf(current);
+		return typeof code === "string" && codes.has(code);
+	});
+}
+
+// A "fetch failed" without a known code is still a network failure, just not provably unsent
+function isNetworkError(err: unknown): boolean {
+	return (
+		causeChain(err).some((current) => current instanceof TypeError && current.message === "fetch failed") ||
+		hasErrorCode(err, NETWORK_ERROR_CODES)
+	);
+}
+
+// Whether the request provably never reached GitHub, so repeating it cannot duplicate a write
+export function isUnsentRequestError(err: unknown): boolean {
+	return hasErrorCode(err, UNSENT_ERROR_CODES);
+}
+
+// Retry-After is either a number of seconds or an HTTP date; an unparsable header is ignored
+function parseRetryAfter(header: string | undefined): number | undefined {
+	if (header === undefined || header.trim() === "") return undefined;
+
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+	const date = Date.parse(header);
+	return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+}
+
+/**
+ * Maps an Octokit request/GraphQL error (or a network error) onto the typed errors above.
+ * Anything else, such as a bug in our own code, returns null so the caller rethrows it unchanged.
+ */
+export function toGitHubError(err: unknown): GitHubError | null {
+	if (err instanceof GitHubError) return err;
+
+	const fields = fieldsOf(err);
+	const status = typeof fields.status === "number" ? fields.status : undefined;
+	const headers = fields.response?.headers ?? {};
+	const message = typeof fields.message === "string" ? fields.message : String(err);
+
+	const retryAfterMs = parseRetryAfter(headers["retry-after"]);
+	const rateLimitReset = Number(headers["x-ratelimit-reset"]);
+
+	// GraphQL responses report rate limits in the errors array with a 200 status
+	if (Array.isArray(fields.errors) && status === undefined) {
+		const types = fields.errors.map((entry: unknown) => fieldsOf(entry).type);
+
+		if (types.includes("RATE_LIMITED")) {
+			return new SecondaryRateLimitError(message, {
+				retryable: true,
+				retryAfterMs: retryAfterMs ?? DEFAULT_SECONDARY_BACKOFF_MS,
+				cause: err,
+			});
+		}
+
+		// e.g. a node ID or project number that does not resolve
+		if (types.every((type) => type === "NOT_FOUND")) {
+			return new NotFoundError(`Not found: ${message}`, { cause: err });
+		}
+
+		return new GitHubError(`GraphQL request failed: ${message}`, { cause: err });
+	}
+
+	if (status === 401) {
+		return new AuthenticationError("Authentication failed (401)", { status, cause: err });
+	}
+
+	if (status === 403 || status === 429) {
+		if (headers["x-ratelimit-remaining"] === "0" && headers["x-ratelimit-reset"] && Number.isFinite(rateLimitReset)) {
+			const resetAt = new Date(rateLimitReset * 1000);
+			return new RateLimitError("API rate limit exceeded", resetAt, { status, cause: err });
+		}
+
+		if (retryAfterMs !== undefined || /secondary rate limit|abuse/i.test(message) || status === 429) {
+			return new SecondaryRateLimitError("Secondary rate limit hit", {
+				status,
+				retryable: true,
+				retryAfterMs: retryAfterMs ?? DEFAULT_SECONDARY_BACKOFF_MS,
+				cause: err,
+			});
+		}
+
+		return new PermissionError(`Permission denied (403): ${message}`, { status, cause: err });
+	}
+
+	if (status === 404) {
+		return new NotFoundError(`Not found (404): ${message}`, { status, cause: err });
+	}
+
+	if (status === undefined) {
+		return isNetworkError(err) ? new TransientError(`Network error: ${message}`, { retryable: true, cause: err }) : null;
+	}
+
+	if (status >= 500) {
+		return new TransientError(`Transient GitHub error (${status}): ${message}`, {
+			status,
+			retryable: true,
+			retryAfterMs,
+			cause: err,
+		});
+	}
+
+	return new GitHubError(`GitHub request failed (${status}): ${message}`, { status, cause: err });
+}
@@ -1,42 +1,161 @@
 import { Octokit } from "octokit";
 import { config } from "@/config";
 import { logger } from "@/utils";
+import { CircuitBreaker } from "@/services/circuitBreaker";
+import { NotFoundError, RateLimitError, SecondaryRateLimitError, isUnsentRequestError, toGitHubError } from "@/services/errors";
+import { describeBoard } from "@/services/issueTracker";
+import type {
+	BoardItemFields,
+	BoardRef,
+	CreateIssueInput,
+	IssueData,
+	IssueQueryOptions,
+	IssueTracker,
+} from "@/services/issueTracker";
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+interface ApiCallOptions {
+	// False for writes that would be duplicated if repeated (creating issues, comments, sub-issue links)
+	idempotent?: boolean;
+}
+
+type GitHubIssue = Awaited<ReturnType<Octokit["rest"]["issues"]["get"]>>["data"];
+
+const STATUS_OPTIONS = [
+	{ name: "Todo", color: "GRAY", description: "" },
+	{ name: "In Progress", color: "YELLOW", description: "" },
+	{ name: "Done", color: "GREEN", description: "" },
+];
+
+// Custom fields pm-manager fills in on each board item; Category options are added per category as needed
+const BOARD_FIELDS = [
+	{ name: "Deadline", dataType: "DATE" },
+	{ name: "Carried Todos", dataType: "NUMBER" },
+] as const;
+
+interface BoardFieldOption {
+	id: string;
+	name: string;
+	color: string;
+	description: string;
+}
+
+// Options sent back with their id keep the values items already have
+type BoardFieldOptionInput = Omit<BoardFieldOption, "id"> & { id?: string };
+
+interface BoardField {
+	id: string;
+	name: string;
+	dataType: string;
+	options: BoardFieldOption[];
+}
+
+interface Board {
+	projectId: string;
+	fields: Map<string, BoardField>;
+}
+
+const BOARD_FIELDS_QUERY = `
+	query($projectId: ID!) {
+		node(id: $projectId) {
+			... on ProjectV2 {
+				fields(first: 50) {
+					nodes {
+						... on ProjectV2FieldCommon {
+							id
+							name
+							dataType
+						}
+						... on ProjectV2SingleSelectField {
+							options {
+								id
+								name
+								color
+								description
+							}
+						}
+					}
+				}
+			}
+		}
+	}
+`;
 
-class GitHubService {
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface GitHubServiceOptions {
+	token: string;
+	// owner/repo
+	repo: string;
+}
+
+export class GitHubService implements IssueTracker {
+	readonly circuitBreaker = new CircuitBreaker();
 	private octokit: Octokit;
 	private owner: string;
 	private repo: string;
-
-	constructor() {
-		this.octokit = new Octokit({ auth: config.GITHUB_PAT });
-		const parts = config.GITHUB_REPO.split("/");
+	private milestoneNumbers = new Map<string, number>();
+	// Board (as described by describeBoard) -> project id and fields, filled on first use
+	private boards = new Map<string, Board>();
+	private ownerNode: { id: string; type: "User" | "Organization" } | null = null;
+
+	constructor(options: GitHubServiceOptions = { token: config.GITHUB_PAT, repo: config.GITHUB_REPO }) {
+		// Retries and rate limits are handled by apiCall, so Octokit's own plugins are disabled
+		this.octokit = new Octokit({
+			auth: options.token,
+			retry: { enabled: false },
+			throttle: { enabled: false },
+		});
+		const parts = options.repo.split("/");
 		this.owner = parts[0]!;
 		this.repo = parts[1]!;
 	}
 
-	private async apiCall<T>(fn: () => Promise<T>): Promise<T> {
-		try {
-			return await fn();
-		} catch (err: any) {
-			if (err.status === 401) {
-				logger.error("Authentication failed (401)");
-				process.exit(1);
-			} else if (err.status === 403) {
-				logger.error("API rate limit exceeded (403)");
-				process.exit(1);
-			} else if (err.status === 404) {
-				logger.error("Repository not found (404)");
-				process.exit(1);
-			} else {
-				logger.warn(err, "Network error, retrying once...");
+	/**
+	 * Runs a GitHub call through the circuit breaker, retrying retryable failures with
+	 * exponential backoff and jitter. GitHub's Retry-After / rate-limit reset wins over the
+	 * computed delay; waits longer than MAX_RETRY_DELAY_MS are left to the circuit breaker.
+	 * Non-idempotent writes are only retried when GitHub provably did not act on the request:
+	 * a rate limit rejection, or a connection that was refused or never resolved.
+	 */
+	private async apiCall<T>(fn: () => Promise<T>, options: ApiCallOptions = {}): Promise<T> {
+		const idempotent = options.idempotent ?? true;
+
+		return this.circuitBreaker.execute(async () => {
+			for (let attempt = 0; ; attempt++) {
 				try {
 					return await fn();
-				} catch {
-					logger.error("Network error after retry, exiting");
-					process.exit(1);
+				} catch (err) {
+					const error = toGitHubError(err);
+					if (!error) throw err;
+
+					const safeToRepeat =
+						idempotent ||
+						error instanceof RateLimitError ||
+						error instanceof SecondaryRateLimitError ||
+						isUnsentRequestError(err);
+					if (!error.retryable || !safeToRepeat || attempt >= MAX_RETRIES) {
+						throw error;
+					}
+
+					// Full jitter: random delay up to the exponential cap
+					const delay = error.retryAfterMs ?? Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+					if (delay > MAX_RETRY_DELAY_MS) {
+						throw error;
+					}
+
+					logger.warn(
+						{ error: error.message, status: error.status, attempt: attempt + 1, delayMs: Math.round(delay) },
+						`${error.name}, retrying`
+					);
+					await sleep(delay);
 				}
 			}
-		}
+		});
 	}
 
 	async getAuthenticatedUser(): Promise<string> {
@@ -107,12 +226,46 @@ class GitHubService {
 		logger.debug({ issueNumber, label }, "Label removed");
 	}
 
+	// Milestone operations
+	async getOrCreateMilestone(title: string): Promise<number> {
+		const cached = this.milestoneNumbers.get(title);
+		if (cached !== undefined) return cached;
+
+		const milestones = await this.apiCall(() =>
+			this.octokit.paginate(this.octokit.rest.issues.listMilestones, {
+				owner: this.owner,
+				repo: this.repo,
+				state: "all",
+				per_page: 100,
+			})
+		);
+
+		let number = milestones.find((milestone) => milestone.title === title)?.number;
+
+		if (number === undefined) {
+			const { data } = await this.apiCall(() =>
+				this.octokit.rest.issues.createMilestone({
+					owner: this.owner,
+					repo: this.repo,
+					title,
+				})
+			);
+			number = data.number;
+			logger.info({ milestone: title, number }, "Milestone created");
+		}
+
+		this.milestoneNumbers.set(title, number);
+		return number;
+	}
+
 	// Issue operations
-	async createIssue(params: { title: string; body: string; labels: string[]; assignees?: string[] }): Promise<number> {
+	async createIssue(params: CreateIssueInput): Promise<number> {
 		if (!params.labels.includes("pm-managed")) {
 			params.labels.push("pm-managed");
 		}
 
+		const milestone = params.milestone ? await this.getOrCreateMilestone(params.milestone) : undefined;
+
 		const { data } = await this.apiCall(() =>
 			this.octokit.rest.issues.create({
 				owner: this.owner,
@@ -121,7 +274,10 @@ class GitHubService {
 				body: params.body,
 				labels: params.labels,
 				assignees: params.assignees || [],
-			})
+				milestone,
+				type: params.type,
+			}),
+			{ idempotent: false }
 		);
 
 		logger.info({ issueNumber: data.number, title: params.title }, "Issue created");
@@ -154,94 +310,319 @@ class GitHubService {
 		logger.info({ issueNumber }, "Issue closed");
 	}
 
-	async getIssuesByLabels(labels: string[], state: "open" | "closed" | "all" = "all"): Promise<IssueData[]> {
+	async setAssignees(issueNumber: number, assignees: string[]): Promise<void> {
+		await this.apiCall(() =>
+			this.octokit.rest.issues.update({
+				owner: this.owner,
+				repo: this.repo,
+				issue_number: issueNumber,
+				assignees,
+			})
+		);
+
+		logger.info({ issueNumber, assignees }, "Issue reassigned");
+	}
+
+	async addComment(issueNumber: number, body: string): Promise<void> {
+		await this.apiCall(() =>
+			this.octokit.rest.issues.createComment({
+				owner: this.owner,
+				repo: this.repo,
+				issue_number: issueNumber,
+				body,
+			}),
+			{ idempotent: false }
+		);
+
+		logger.info({ issueNumber }, "Comment added");
+	}
+
+	/**
+	 * Lists pm-managed issues carrying all of `labels`, newest first, following every page.
+	 * `since` keeps only issues updated at or after that time; `limit` stops paging once reached.
+	 */
+	async getIssuesByLabels(
+		labels: string[],
+		state: "open" | "closed" | "all" = "all",
+		options: IssueQueryOptions = {}
+	): Promise<IssueData[]> {
 		if (!labels.includes("pm-managed")) {
 			labels.push("pm-managed");
 		}
 
+		const { since, limit } = options;
+
+		const issues = await this.apiCall(() => {
+			let collected = 0;
+
+			return this.octokit.paginate(
+				this.octokit.rest.issues.listForRepo,
+				{
+					owner: this.owner,
+					repo: this.repo,
+					state,
+					labels: labels.join(","),
+					sort: "created",
+					direction: "desc",
+					since: since ? new Date(since).toISOString() : undefined,
+					per_page: 100,
+				},
+				(response, done) => {
+					// Stop requesting pages once the cap is covered
+					if (limit !== undefined && response.data.length > 0) {
+						collected += response.data.length;
+						if (collected >= limit) done();
+					}
+					return response.data;
+				}
+			);
+		});
+
+		return issues
+			.filter((issue) => !issue.pull_request)
+			.slice(0, limit)
+			.map((issue) => this.toIssueData(issue));
+	}
+
+	// Highest issue or pull request number in the repository, 0 when it has none
+	async getLatestIssueNumber(): Promise<number> {
 		const { data } = await this.apiCall(() =>
 			this.octokit.rest.issues.listForRepo({
 				owner: this.owner,
 				repo: this.repo,
-				state,
-				labels: labels.join(","),
+				state: "all",
+				sort: "created",
+				direction: "desc",
+				per_page: 1,
+			})
+		);
+		return data[0]?.number ?? 0;
+	}
+
+	async addSubIssue(parentNumber: number, childNumber: number, options: { replaceParent?: boolean } = {}): Promise<void> {
+		// The sub-issues API takes the child's database ID, not its number
+		const { data: child } = await this.apiCall(() =>
+			this.octokit.rest.issues.get({
+				owner: this.owner,
+				repo: this.repo,
+				issue_number: childNumber,
+			})
+		);
+
+		await this.apiCall(() =>
+			this.octokit.rest.issues.addSubIssue({
+				owner: this.owner,
+				repo: this.repo,
+				issue_number: parentNumber,
+				sub_issue_id: child.id,
+				replace_parent: options.replaceParent,
+			}),
+			{ idempotent: false }
+		);
+
+		logger.info({ parentNumber, childNumber }, "Sub-issue linked");
+	}
+
+	async getSubIssues(parentNumber: number): Promise<IssueData[]> {
+		const issues = await this.apiCall(() =>
+			this.octokit.paginate(this.octokit.rest.issues.listSubIssues, {
+				owner: this.owner,
+				repo: this.repo,
+				issue_number: parentNumber,
 				per_page: 100,
 			})
 		);
 
-		return data.map((issue) => ({
+		return issues.map((issue) => this.toIssueData(issue));
+	}
+
+	private toIssueData(issue: GitHubIssue): IssueData {
+		const summary = issue.sub_issues_summary;
+
+		return {
 			number: issue.number,
 			title: issue.title,
 			body: issue.body || "",
 			labels: issue.labels.map((label) => (typeof label === "string" ? label : label.name || "")),
+			assignees: (issue.assignees ?? []).map((assignee) => assignee.login),
 			state: issue.state as "open" | "closed",
 			createdAt: issue.created_at,
-		}));
+			updatedAt: issue.updated_at,
+			...(summary && summary.total > 0 ? { subIssues: { total: summary.total, completed: summary.completed } } : {}),
+		};
 	}
 
 	// Board operations
-	async kanbanBoardExists(name: string): Promise<boolean> {
-		try {
-			const repoQuery = `
-        query($owner: String!, $repo: String!) {
-          repository(owner: $owner, name: $repo) {
-            projectsV2(first: 20) {
-              nodes {
-                title
-              }
-            }
-          }
-        }
-      `;
-
-			const data: any = await this.apiCall(() =>
-				this.octokit.graphql(repoQuery, {
-					owner: this.owner,
-					repo: this.repo,
-				})
-			);
+	private async getOwnerNode(): Promise<{ id: string; type: "User" | "Organization" }> {
+		if (this.ownerNode) return this.ownerNode;
+
+		// repositoryOwner resolves users and organizations alike
+		const query = `
+			query($login: String!) {
+				repositoryOwner(login: $login) {
+					__typename
+					id
+				}
+			}
+		`;
 
-			const projects = data.repository.projectsV2.nodes;
-			return projects.some((project: any) => project.title === name);
-		} catch (error: any) {
-			logger.error(
-				{
-					error: error.message,
-					status: error.status,
-					errors: error.errors,
-					owner: this.owner,
-					repo: this.repo,
-				},
-				"Error checking kanban board existence"
-			);
-			return false;
+		const data: any = await this.apiCall(() => this.octokit.graphql(query, { login: this.owner }));
+		if (!data.repositoryOwner) {
+			throw new NotFoundError(`Repository owner ${this.owner} not found`);
 		}
+
+		this.ownerNode = { id: data.repositoryOwner.id, type: data.repositoryOwner.__typename };
+		return this.ownerNode;
 	}
 
-	async createKanbanBoard(name: string): Promise<void> {
-		if (await this.kanbanBoardExists(name)) {
-			logger.info({ boardName: name }, "Kanban board already exists");
-			return;
+	private async getRepositoryId(): Promise<string> {
+		const query = `
+			query($owner: String!, $repo: String!) {
+				repository(owner: $owner, name: $repo) {
+					id
+				}
+			}
+		`;
+
+		const data: any = await this.apiCall(() => this.octokit.graphql(query, { owner: this.owner, repo: this.repo }));
+		return data.repository.id;
+	}
+
+	// Walks every page of a projectsV2 connection
+	private async listProjects(
+		query: string,
+		variables: Record<string, unknown>,
+		connection: (data: any) => any
+	): Promise<Array<{ id: string; title: string; number: number }>> {
+		const projects: Array<{ id: string; title: string; number: number }> = [];
+		let cursor: string | null = null;
+
+		do {
+			const after = cursor;
+			const data: any = await this.apiCall(() => this.octokit.graphql(query, { ...variables, cursor: after }));
+			const page = connection(data);
+			projects.push(...page.nodes.filter(Boolean));
+			cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+		} while (cursor);
+
+		return projects;
+	}
+
+	/**
+	 * Resolves the board's project id: exactly by node ID or owner project number when configured,
+	 * otherwise by title among the projects linked to the repository, then among the owner's projects.
+	 * Several projects with the same title are an error rather than a guess.
+	 */
+	private async findBoardId(board: BoardRef): Promise<string | null> {
+		try {
+			if (board.id !== undefined) {
+				const query = `
+					query($id: ID!) {
+						node(id: $id) {
+							... on ProjectV2 {
+								id
+							}
+						}
+					}
+				`;
+				const data: any = await this.apiCall(() => this.octokit.graphql(query, { id: board.id }));
+				return data.node?.id ?? null;
+			}
+
+			if (board.number !== undefined) {
+				const query = `
+					query($login: String!, $number: Int!) {
+						repositoryOwner(login: $login) {
+							... on ProjectV2Owner {
+								projectV2(number: $number) {
+									id
+								}
+							}
+						}
+					}
+				`;
+				const data: any = await this.apiCall(() =>
+					this.octokit.graphql(query, { login: this.owner, number: board.number })
+				);
+				return data.repositoryOwner?.projectV2?.id ?? null;
+			}
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
 		}
 
-		// Get owner (user) ID
+		const repoQuery = `
+			query($owner: String!, $repo: String!, $cursor: String) {
+				repository(owner: $owner, name: $repo) {
+					projectsV2(first: 100, after: $cursor) {
+						nodes {
+							id
+							title
+							number
+						}
+						pageInfo {
+							hasNextPage
+							endCursor
+						}
+					}
+				}
+			}
+		`;
 		const ownerQuery = `
-		query($login: String!) {
-			user(login: $login) {
-				id
+			query($login: String!, $cursor: String) {
+				repositoryOwner(login: $login) {
+					... on ProjectV2Owner {
+						projectsV2(first: 100, after: $cursor) {
+							nodes {
+								id
+								title
+								number
+							}
+							pageInfo {
+								hasNextPage
+								endCursor
+							}
+						}
+					}
+				}
 			}
+		`;
+
+		let matches = (
+			await this.listProjects(repoQuery, { owner: this.owner, repo: this.repo }, (data) => data.repository.projectsV2)
+		).filter((project) => project.title === board.title);
+
+		// A board that exists but was never linked to the repository is still reused
+		if (matches.length === 0) {
+			matches = (
+				await this.listProjects(ownerQuery, { login: this.owner }, (data) => data.repositoryOwner.projectsV2)
+			).filter((project) => project.title === board.title);
 		}
-	`;
 
-		const ownerData: any = await this.apiCall(() =>
-			this.octokit.graphql(ownerQuery, {
-				login: this.owner,
-			})
-		);
+		if (matches.length > 1) {
+			throw new Error(
+				`Several boards are titled "${board.title}" (${matches.map((project) => `#${project.number}`).join(", ")}); ` +
+					"set workspace.board.number to pick one"
+			);
+		}
+
+		return matches[0]?.id ?? null;
+	}
 
-		const ownerId = ownerData.user.id;
+	// Lookup errors are thrown, not read as "missing", so a failed check never leads to a duplicate board
+	async kanbanBoardExists(board: BoardRef): Promise<boolean> {
+		return (await this.findBoardId(board)) !== null;
+	}
+
+	async createKanbanBoard(board: BoardRef): Promise<void> {
+		if (await this.kanbanBoardExists(board)) {
+			logger.info({ board: describeBoard(board) }, "Kanban board already exists");
+			return;
+		}
+
+		// Projects belong to the repository owner, a user or an organization
+		const owner = await this.getOwnerNode();
 
-		// Create project at user level
 		const createProjectMutation = `
 		mutation($ownerId: ID!, $title: String!) {
 			createProjectV2(input: {ownerId: $ownerId, title: $title}) {
@@ -254,30 +635,16 @@ class GitHubService {
 
 		const projectData: any = await this.apiCall(() =>
 			this.octokit.graphql(createProjectMutation, {
-				ownerId: ownerId,
-				title: name,
-			})
+				ownerId: owner.id,
+				title: board.title,
+			}),
+			{ idempotent: false }
 		);
 
 		const projectId = projectData.createProjectV2.projectV2.id;
 
 		// Link project to repository
-		const repoQuery = `
-		query($owner: String!, $repo: String!) {
-			repository(owner: $owner, name: $repo) {
-				id
-			}
-		}
-	`;
-
-		const repoData: any = await this.apiCall(() =>
-			this.octokit.graphql(repoQuery, {
-				owner: this.owner,
-				repo: this.repo,
-			})
-		);
-
-		const repositoryId = repoData.repository.id;
+		const repositoryId = await this.getRepositoryId();
 
 		const linkProjectMutation = `
 		mutation($projectId: ID!, $repositoryId: ID!) {
@@ -297,73 +664,111 @@ class GitHubService {
 		);
 
 		// Get the Status field
-		const getFieldsQuery = `
-		query($projectId: ID!) {
-			node(id: $projectId) {
-				... on ProjectV2 {
-					fields(first: 20) {
-						nodes {
-							... on ProjectV2SingleSelectField {
-								id
-								name
-								options {
-									id
-									name
-								}
-							}
-						}
-					}
-				}
-			}
+		const statusField = (await this.loadBoardFields(projectId)).get("Status");
+
+		if (!statusField) {
+			logger.error("Status field not found in project");
+			return;
 		}
-	`;
 
-		const fieldsData: any = await this.apiCall(() =>
-			this.octokit.graphql(getFieldsQuery, {
-				projectId: projectId,
-			})
+		// New boards come with same-named default columns; reusing their ids keeps them instead of recreating them
+		const defaults = this.optionInputs(statusField);
+		await this.setSingleSelectOptions(
+			statusField.id,
+			STATUS_OPTIONS.map((option) => ({ id: defaults.find((existing) => existing.name === option.name)?.id, ...option }))
 		);
+		const fields = await this.loadBoardFields(projectId);
+
+		const workflows = this.workflowInputs(projectId, repositoryId, fields.get("Status")!);
+		for (const workflow of workflows) {
+			await this.createWorkflow(workflow);
+		}
 
-		const statusField = fieldsData.node.fields.nodes.find((field: any) => field.name === "Status");
+		await this.ensureBoardFields(projectId, fields);
 
-		if (!statusField) {
-			logger.error("Status field not found in project");
-			return;
+		logger.info(
+			{ board: describeBoard(board), ownerType: owner.type },
+			`Kanban board created with ${workflows.length} workflows and custom fields`
+		);
+	}
+
+	/**
+	 * Checks an existing board for the Status options, custom fields and workflows pm-manager relies on
+	 * and recreates whatever is missing. Existing options (sent back with their ids, so cards keep
+	 * their Status) and workflows are left as they are.
+	 */
+	async repairKanbanBoard(board: BoardRef): Promise<string[]> {
+		const projectId = await this.findBoardId(board);
+		if (!projectId) {
+			throw new Error(`Board ${describeBoard(board)} not found`);
 		}
 
-		const updateFieldMutation = `
-  mutation($fieldId: ID!, $options: [ProjectV2SingleSelectFieldOptionInput!]!) {
-    updateProjectV2Field(input: {fieldId: $fieldId, singleSelectOptions: $options}) {
-      projectV2Field {
-        ... on ProjectV2SingleSelectField {
-          id
-          options {
-            id
-            name
-          }
-        }
-      }
-    }
-  }
-`;
+		const repairs: string[] = [];
+		let fields = await this.loadBoardFields(projectId);
 
-		const updateResult: any = await this.apiCall(() =>
-			this.octokit.graphql(updateFieldMutation, {
-				fieldId: statusField.id, // Removed projectId
-				options: [
-					{ name: "Todo", color: "GRAY" },
-					{ name: "In Progress", color: "YELLOW" },
-					{ name: "Done", color: "GREEN" },
-				],
-			})
+		const statusField = fields.get("Status");
+		if (!statusField) {
+			throw new Error(`Board ${describeBoard(board)} has no Status field`);
+		}
+
+		const missingStatuses = STATUS_OPTIONS.filter(
+			(option) => !statusField.options.some((existing) => existing.name === option.name)
 		);
+		if (missingStatuses.length > 0) {
+			// Only the missing columns are appended
+			await this.setSingleSelectOptions(statusField.id, [...this.optionInputs(statusField), ...missingStatuses]);
+			repairs.push(`Added Status options: ${missingStatuses.map((option) => option.name).join(", ")}`);
+		}
+
+		const missingFields = BOARD_FIELDS.filter((field) => !fields.has(field.name));
+		if (missingFields.length > 0) {
+			await this.ensureBoardFields(projectId, fields);
+			repairs.push(`Created fields: ${missingFields.map((field) => field.name).join(", ")}`);
+		}
+
+		fields = await this.loadBoardFields(projectId);
+		const workflows = await this.loadWorkflows(projectId);
+		const repositoryId = await this.getRepositoryId();
+
+		for (const workflow of this.workflowInputs(projectId, repositoryId, fields.get("Status")!)) {
+			const existing = workflows.find((candidate) => candidate.name === workflow.name);
+
+			if (!existing) {
+				await this.createWorkflow(workflow);
+				repairs.push(`Created workflow "${workflow.name}"`);
+			} else if (!existing.enabled) {
+				logger.warn({ workflow: workflow.name }, "Board workflow is disabled; enable it in the board's workflow settings");
+			}
+		}
+
+		// Field and option ids may have changed
+		this.boards.delete(describeBoard(board));
 
-		const options = updateResult.updateProjectV2Field.projectV2Field.options;
-		const todoOptionId = options.find((opt: any) => opt.name === "Todo")!.id;
-		const inProgressOptionId = options.find((opt: any) => opt.name === "In Progress")!.id;
-		const doneOptionId = options.find((opt: any) => opt.name === "Done")!.id;
+		logger.info({ board: describeBoard(board), repairs }, repairs.length > 0 ? "Kanban board repaired" : "Kanban board is intact");
+		return repairs;
+	}
 
-		// Create workflows
+	private async loadWorkflows(projectId: string): Promise<Array<{ name: string; enabled: boolean }>> {
+		const query = `
+			query($projectId: ID!) {
+				node(id: $projectId) {
+					... on ProjectV2 {
+						workflows(first: 50) {
+							nodes {
+								name
+								enabled
+							}
+						}
+					}
+				}
+			}
+		`;
+
+		const data: any = await this.apiCall(() => this.octokit.graphql(query, { projectId }));
+		return data.node.workflows.nodes;
+	}
+
+	private async createWorkflow(workflow: { name: string; input: Record<string, unknown> }): Promise<void> {
 		const createWorkflowMutation = `
 		mutation($input: CreateProjectV2WorkflowInput!) {
 			createProjectV2Workflow(input: $input) {
@@ -374,135 +779,217 @@ class GitHubService {
 		}
 	`;
 
-		// 1. Auto add sub-issues to project
-		await this.apiCall(() =>
-			this.octokit.graphql(createWorkflowMutation, {
-				input: {
-					projectId: projectId,
-					name: "Auto add sub issues to project",
-					enabled: true,
-					triggers: [{ subIssueAdded: {} }],
-					actions: [{ addToProject: { projectId: projectId } }],
-				},
-			})
-		);
+		await this.apiCall(() => this.octokit.graphql(createWorkflowMutation, { input: workflow.input }));
+	}
 
-		// 2. Auto add to project (all issues from repo)
-		await this.apiCall(() =>
-			this.octokit.graphql(createWorkflowMutation, {
-				input: {
-					projectId: projectId,
-					name: "Auto add to project",
-					enabled: true,
-					triggers: [
-						{
-							issueCreated: {
-								repositoryIds: [repositoryId],
-							},
-						},
-					],
-					actions: [{ addToProject: { projectId: projectId } }],
-				},
-			})
-		);
+	// The board's workflows, all limited to issues
+	private workflowInputs(
+		projectId: string,
+		repositoryId: string,
+		statusField: BoardField
+	): Array<{ name: string; input: Record<string, unknown> }> {
+		const optionId = (name: string) => statusField.options.find((option) => option.name === name)!.id;
+		const setStatus = (name: string) => [
+			{ setFieldValue: { fieldId: statusField.id, value: { singleSelectOptionId: optionId(name) } } },
+		];
+		const addToProject = [{ addToProject: { projectId } }];
+
+		const workflows = [
+			// 1. Auto add sub-issues to project
+			{ name: "Auto add sub issues to project", triggers: [{ subIssueAdded: {} }], actions: addToProject },
+			// 2. Auto add to project (all issues from repo)
+			{ name: "Auto add to project", triggers: [{ issueCreated: { repositoryIds: [repositoryId] } }], actions: addToProject },
+			// 3. Auto close issue → Done
+			{ name: "Auto close issue", triggers: [{ event: "ITEM_ARCHIVED" }], actions: setStatus("Done") },
+			// 4. Item added to project → Todo
+			{ name: "Item added to project", triggers: [{ issueAdded: { repositoryIds: [repositoryId] } }], actions: setStatus("Todo") },
+			// 5. Item closed → Done
+			{ name: "Item closed", triggers: [{ event: "ISSUE_CLOSED" }], actions: setStatus("Done") },
+			// 6. Item reopened → In Progress
+			{ name: "Item reopened", triggers: [{ event: "ISSUE_REOPENED" }], actions: setStatus("In Progress") },
+		] as const;
+
+		return workflows.map(({ name, triggers, actions }) => ({
+			name,
+			input: { projectId, name, enabled: true, triggers, actions },
+		}));
+	}
 
-		// 3. Auto close issue → Done
-		await this.apiCall(() =>
-			this.octokit.graphql(createWorkflowMutation, {
-				input: {
-					projectId: projectId,
-					name: "Auto close issue",
-					enabled: true,
-					triggers: [{ event: "ITEM_ARCHIVED" }],
-					actions: [
-						{
-							setFieldValue: {
-								fieldId: statusField.id,
-								value: { singleSelectOptionId: doneOptionId },
-							},
-						},
-					],
-				},
-			})
-		);
+	private async loadBoardFields(projectId: string): Promise<Map<string, BoardField>> {
+		const data: any = await this.apiCall(() => this.octokit.graphql(BOARD_FIELDS_QUERY, { projectId }));
+
+		// Nodes of other field kinds come back empty
+		const fields: BoardField[] = data.node.fields.nodes
+			.filter((field: any) => field.id)
+			.map((field: any) => ({ id: field.id, name: field.name, dataType: field.dataType, options: field.options ?? [] }));
+
+		return new Map(fields.map((field) => [field.name, field]));
+	}
+
+	private async createBoardField(
+		projectId: string,
+		name: string,
+		dataType: string,
+		options: Array<Omit<BoardFieldOption, "id">> = []
+	): Promise<void> {
+		const mutation = `
+			mutation($input: CreateProjectV2FieldInput!) {
+				createProjectV2Field(input: $input) {
+					projectV2Field {
+						... on ProjectV2FieldCommon {
+							id
+						}
+					}
+				}
+			}
+		`;
 
-		// 4. Item added to project → Todo (issues only)
 		await this.apiCall(() =>
-			this.octokit.graphql(createWorkflowMutation, {
-				input: {
-					projectId: projectId,
-					name: "Item added to project",
-					enabled: true,
-					triggers: [
-						{
-							issueAdded: {
-								repositoryIds: [repositoryId],
-							},
-						},
-					],
-					actions: [
-						{
-							setFieldValue: {
-								fieldId: statusField.id,
-								value: { singleSelectOptionId: todoOptionId },
-							},
-						},
-					],
-				},
+			this.octokit.graphql(mutation, {
+				input: { projectId, name, dataType, ...(options.length > 0 ? { singleSelectOptions: options } : {}) },
 			})
 		);
 
-		// 5. Item closed → Done (issues only)
-		await this.apiCall(() =>
-			this.octokit.graphql(createWorkflowMutation, {
-				input: {
-					projectId: projectId,
-					name: "Item closed",
-					enabled: true,
-					triggers: [{ event: "ISSUE_CLOSED" }],
-					actions: [
-						{
-							setFieldValue: {
-								fieldId: statusField.id,
-								value: { singleSelectOptionId: doneOptionId },
-							},
-						},
-					],
-				},
-			})
+		logger.info({ projectId, field: name, dataType }, "Board field created");
+	}
+
+	// Creates the Deadline and Carried Todos fields when the board lacks them
+	private async ensureBoardFields(projectId: string, fields: Map<string, BoardField>): Promise<Map<string, BoardField>> {
+		const missing = BOARD_FIELDS.filter((field) => !fields.has(field.name));
+		if (missing.length === 0) return fields;
+
+		for (const field of missing) {
+			await this.createBoardField(projectId, field.name, field.dataType);
+		}
+
+		return this.loadBoardFields(projectId);
+	}
+
+	private async getBoard(ref: BoardRef): Promise<Board> {
+		const key = describeBoard(ref);
+		const cached = this.boards.get(key);
+		if (cached) return cached;
+
+		const projectId = await this.findBoardId(ref);
+		if (!projectId) {
+			throw new Error(`Board ${key} not found`);
+		}
+
+		const board = { projectId, fields: await this.ensureBoardFields(projectId, await this.loadBoardFields(projectId)) };
+		this.boards.set(key, board);
+		return board;
+	}
+
+	// Existing options with their ids; options sent without one are recreated, which clears them on every item
+	private optionInputs(field: BoardField): BoardFieldOptionInput[] {
+		return field.options.map(({ id, name, color, description }) => ({ id, name, color, description }));
+	}
+
+	// Single-select options can only be replaced as a whole
+	private async setSingleSelectOptions(fieldId: string, options: BoardFieldOptionInput[]): Promise<void> {
+		const mutation = `
+			mutation($fieldId: ID!, $options: [ProjectV2SingleSelectFieldOptionInput!]!) {
+				updateProjectV2Field(input: {fieldId: $fieldId, singleSelectOptions: $options}) {
+					projectV2Field {
+						... on ProjectV2FieldCommon {
+							id
+						}
+					}
+				}
+			}
+		`;
+
+		await this.apiCall(() => this.octokit.graphql(mutation, { fieldId, options }));
+	}
+
+	/**
+	 * Option id of the category in the board's Category field, creating the field or
+	 * adding the option first; the existing options are sent back with their ids along with the new one.
+	 */
+	private async categoryOptionId(board: Board, category: string): Promise<string> {
+		const field = board.fields.get("Category");
+		const existing = field?.options.find((option) => option.name === category);
+		if (existing) return existing.id;
+
+		const option = { name: category, color: "BLUE", description: "" };
+
+		if (!field) {
+			await this.createBoardField(board.projectId, "Category", "SINGLE_SELECT", [option]);
+		} else {
+			await this.setSingleSelectOptions(field.id, [...this.optionInputs(field), option]);
+		}
+
+		board.fields = await this.loadBoardFields(board.projectId);
+		const created = board.fields.get("Category")?.options.find((candidate) => candidate.name === category);
+		if (!created) {
+			throw new Error(`Category option "${category}" missing after update`);
+		}
+		return created.id;
+	}
+
+	async setBoardItem(ref: BoardRef, issueNumber: number, fields: BoardItemFields): Promise<void> {
+		const board = await this.getBoard(ref);
+		const boardName = describeBoard(ref);
+
+		const { data: issue } = await this.apiCall(() =>
+			this.octokit.rest.issues.get({ owner: this.owner, repo: this.repo, issue_number: issueNumber })
 		);
 
-		// 6. Item reopened → In Progress (issues only)
-		await this.apiCall(() =>
-			this.octokit.graphql(createWorkflowMutation, {
-				input: {
-					projectId: projectId,
-					name: "Item reopened",
-					enabled: true,
-					triggers: [{ event: "ISSUE_REOPENED" }],
-					actions: [
-						{
-							setFieldValue: {
-								fieldId: statusField.id,
-								value: { singleSelectOptionId: inProgressOptionId },
-							},
-						},
-					],
-				},
-			})
+		// Returns the existing item when the issue is already on the board
+		const addMutation = `
+			mutation($projectId: ID!, $contentId: ID!) {
+				addProjectV2ItemById(input: {projectId: $projectId, contentId: $contentId}) {
+					item {
+						id
+					}
+				}
+			}
+		`;
+
+		const added: any = await this.apiCall(() =>
+			this.octokit.graphql(addMutation, { projectId: board.projectId, contentId: issue.node_id })
 		);
+		const itemId: string = added.addProjectV2ItemById.item.id;
 
-		logger.info({ boardName: name }, "Kanban board created with 6 workflows");
-	}
-}
+		const values: Array<{ field: string; value: Record<string, string | number> }> = [];
 
-export interface IssueData {
-	number: number;
-	title: string;
-	body: string;
-	labels: string[];
-	state: "open" | "closed";
-	createdAt: string;
+		if (fields.status !== undefined) {
+			const option = board.fields.get("Status")?.options.find((candidate) => candidate.name === fields.status);
+			if (option) {
+				values.push({ field: "Status", value: { singleSelectOptionId: option.id } });
+			} else {
+				logger.warn({ boardName, status: fields.status }, "Board has no such Status option");
+			}
+		}
+		if (fields.deadline !== undefined) {
+			values.push({ field: "Deadline", value: { date: fields.deadline } });
+		}
+		if (fields.category !== undefined) {
+			values.push({ field: "Category", value: { singleSelectOptionId: await this.categoryOptionId(board, fields.category) } });
+		}
+		if (fields.carriedTodos !== undefined) {
+			values.push({ field: "Carried Todos", value: { number: fields.carriedTodos } });
+		}
+
+		const updateMutation = `
+			mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: ProjectV2FieldValue!) {
+				updateProjectV2ItemFieldValue(input: {projectId: $projectId, itemId: $itemId, fieldId: $fieldId, value: $value}) {
+					projectV2Item {
+						id
+					}
+				}
+			}
+		`;
+
+		for (const { field, value } of values) {
+			const fieldId = board.fields.get(field)!.id;
+			await this.apiCall(() =>
+				this.octokit.graphql(updateMutation, { projectId: board.projectId, itemId, fieldId, value })
+			);
+		}
+
+		logger.info({ boardName, issueNumber, fields }, "Board item updated");
+	}
 }
 
 export const githubService = new GitHubService();
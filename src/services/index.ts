@@ -1,3 +1,10 @@
 export * from "@/services/schedule";
+export * from "@/services/stateBackend";
 export * from "@/services/state.service";
+export * from "@/services/jsonState.service";
+export * from "@/services/sqliteState.service";
 export * from "@/services/github.service";
+export * from "@/services/issueTracker";
+export * from "@/services/memoryTracker.service";
+export * from "@/services/errors";
+export * from "@/services/circuitBreaker";
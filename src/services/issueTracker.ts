@@ -0,0 +1,110 @@
+import { githubService } from "@/services/github.service";
+import { workspaceContext } from "@/utils/workspaceContext";
+
+export interface IssueData {
+	number: number;
+	title: string;
+	body: string;
+	labels: string[];
+	assignees: string[];
+	state: "open" | "closed";
+	createdAt: string;
+	updatedAt: string;
+	// Present when the issue has sub-issues
+	subIssues?: SubIssueSummary;
+}
+
+export interface SubIssueSummary {
+	total: number;
+	// Closed sub-issues
+	completed: number;
+}
+
+export interface IssueQueryOptions {
+	// Only issues updated at or after this time (ISO string or Date)
+	since?: string | Date;
+	// Maximum number of issues to return, newest first
+	limit?: number;
+}
+
+export interface CreateIssueInput {
+	title: string;
+	body: string;
+	labels: string[];
+	assignees?: string[];
+	// Milestone title, resolved (or created) by the tracker
+	milestone?: string;
+	// Issue type name
+	type?: string;
+}
+
+// Which Projects board to use: by title, or exactly by the owner's project number or the project's node ID
+export interface BoardRef {
+	title: string;
+	number?: number;
+	id?: string;
+}
+
+export function describeBoard(board: BoardRef): string {
+	if (board.id !== undefined) return board.id;
+	return board.number !== undefined ? `#${board.number}` : `"${board.title}"`;
+}
+
+export type BoardStatus = "Todo" | "In Progress" | "Done";
+
+// Board fields of an issue; omitted fields are left as they are
+export interface BoardItemFields {
+	status?: BoardStatus;
+	// YYYY-MM-DD
+	deadline?: string;
+	category?: string;
+	carriedTodos?: number;
+}
+
+/**
+ * Everything pm-manager needs from an issue tracker.
+ * GitHubService is the real implementation; InMemoryIssueTracker backs dry runs.
+ */
+export interface IssueTracker {
+	getAuthenticatedUser(): Promise<string>;
+
+	labelExists(name: string): Promise<boolean>;
+	createLabel(name: string, color: string): Promise<void>;
+	addLabels(issueNumber: number, labels: string[]): Promise<void>;
+	removeLabel(issueNumber: number, label: string): Promise<void>;
+
+	createIssue(params: CreateIssueInput): Promise<number>;
+	updateIssueBody(issueNumber: number, body: string): Promise<void>;
+	closeIssue(issueNumber: number): Promise<void>;
+	// Replaces the issue's assignees
+	setAssignees(issueNumber: number, assignees: string[]): Promise<void>;
+	addComment(issueNumber: number, body: string): Promise<void>;
+	getIssuesByLabels(labels: string[], state?: "open" | "closed" | "all", options?: IssueQueryOptions): Promise<IssueData[]>;
+
+	// Links an existing issue under a parent; replaceParent moves it away from its current parent
+	addSubIssue(parentNumber: number, childNumber: number, options?: { replaceParent?: boolean }): Promise<void>;
+	getSubIssues(parentNumber: number): Promise<IssueData[]>;
+
+	kanbanBoardExists(board: BoardRef): Promise<boolean>;
+	createKanbanBoard(board: BoardRef): Promise<void>;
+	// Recreates missing Status options, custom fields and workflows of an existing board; returns what was fixed
+	repairKanbanBoard(board: BoardRef): Promise<string[]>;
+	// Adds the issue to the board (keeping it when already there) and sets the given fields
+	setBoardItem(board: BoardRef, issueNumber: number, fields: BoardItemFields): Promise<void>;
+}
+
+let activeTracker: IssueTracker | null = null;
+
+// Swap the tracker used by the current workspace, or by the whole process outside one (e.g. --dry-run)
+export function useIssueTracker(tracker: IssueTracker): void {
+	const workspace = workspaceContext.current();
+	if (workspace) {
+		workspace.tracker = tracker;
+	} else {
+		activeTracker = tracker;
+	}
+}
+
+export function getIssueTracker(): IssueTracker {
+	return workspaceContext.current()?.tracker ?? activeTracker ?? githubService;
+}
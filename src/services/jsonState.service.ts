@@ -0,0 +1,219 @@
+import fs from "fs";
+import path from "path";
+import { z, prettifyError } from "zod";
+import { logger } from "@/utils";
+import { LocalIssueStateSchema, StoredMigratedTodoSchema, StateFileError } from "@/services/stateBackend";
+import type {
+	StateBackend,
+	LocalAppState,
+	CategoryRecord,
+	OccurrenceRecord,
+	CreatedIssueRecord,
+	MigratedTodoRecord,
+	StoredMigratedTodo,
+} from "@/services/stateBackend";
+
+const STATE_VERSION = 5;
+
+const StateFileSchema = z.object({
+	version: z.literal(STATE_VERSION),
+	categories: z.array(LocalIssueStateSchema),
+	migratedTodos: z.array(StoredMigratedTodoSchema),
+});
+
+type StateFile = z.infer<typeof StateFileSchema>;
+
+/**
+ * Upgrades the state file from the version it was written with (the key) to the next one.
+ * Files without a `version` field are version 0.
+ */
+const MIGRATIONS: Record<number, (data: any) => unknown> = {
+	// 0 -> 1: bare array of categories, history not yet tracked
+	0: (data: any[]) => ({
+		version: 1,
+		categories: data.map((item) => ({ ...item, history: item.history ?? [] })),
+	}),
+	// 1 -> 2: created issues and migrated todos
+	1: (data: any) => ({
+		version: 2,
+		categories: data.categories.map((item: any) => ({ ...item, issues: [] })),
+		migratedTodos: [],
+	}),
+	// 2 -> 3: days skipped during downtime
+	2: (data: any) => ({
+		...data,
+		version: 3,
+		categories: data.categories.map((item: any) => ({ ...item, skipped: [] })),
+	}),
+	// 3 -> 4: deadline action per occurrence; every earlier deadline closed its issues
+	3: (data: any) => ({
+		...data,
+		version: 4,
+		categories: data.categories.map((item: any) => ({
+			...item,
+			history: item.history.map((entry: any) => ({ ...entry, action: "closed" })),
+		})),
+	}),
+	// 4 -> 5: catch-up marker
+	4: (data: any) => ({
+		...data,
+		version: 5,
+		categories: data.categories.map((item: any) => ({ ...item, caughtUpDate: null })),
+	}),
+};
+
+export class JsonStateBackend implements StateBackend {
+	private document: StateFile | null = null;
+	// Modification time and size of the file when it was last read or written
+	private stamp: string | null = null;
+
+	constructor(private readonly filePath: string = path.resolve("data", "state.json")) {}
+
+	get location(): string {
+		return this.filePath;
+	}
+
+	private migrate(data: unknown): unknown {
+		let version = Array.isArray(data) ? 0 : ((data as { version?: unknown })?.version ?? 0);
+
+		while (typeof version === "number" && version < STATE_VERSION) {
+			const migration = MIGRATIONS[version];
+			if (!migration) break;
+
+			data = migration(data);
+			logger.info({ from: version, to: version + 1 }, "Migrated state file");
+			version += 1;
+		}
+
+		return data;
+	}
+
+	private fileStamp(): string | null {
+		if (!fs.existsSync(this.filePath)) return null;
+		const { mtimeMs, size } = fs.statSync(this.filePath);
+		return `${mtimeMs}:${size}`;
+	}
+
+	// Reads, migrates and validates the file once; later reads are served from memory
+	private read(): StateFile {
+		if (this.document) return this.document;
+
+		this.stamp = this.fileStamp();
+		if (this.stamp === null) {
+			logger.warn("State file not found, returning empty state");
+			this.document = { version: STATE_VERSION, categories: [], migratedTodos: [] };
+			return this.document;
+		}
+
+		let data: unknown;
+		try {
+			data = JSON.parse(fs.readFileSync(this.filePath, { encoding: "utf8" }));
+		} catch (error) {
+			throw new StateFileError(this.filePath, (error as Error).message);
+		}
+
+		const result = StateFileSchema.safeParse(this.migrate(data));
+		if (!result.success) {
+			throw new StateFileError(this.filePath, prettifyError(result.error));
+		}
+
+		this.document = result.data;
+		return this.document;
+	}
+
+	// Writes to a temporary file first so a crash mid-write cannot leave a truncated state file
+	private write(): void {
+		const document = this.read();
+		fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+		const tempPath = `${this.filePath}.tmp`;
+		const fd = fs.openSync(tempPath, "w");
+		try {
+			fs.writeSync(fd, JSON.stringify(document, null, 2));
+			fs.fsyncSync(fd);
+		} finally {
+			fs.closeSync(fd);
+		}
+
+		fs.renameSync(tempPath, this.filePath);
+		this.stamp = this.fileStamp();
+		logger.debug("State saved successfully");
+	}
+
+	private requireCategory(category: string): StateFile["categories"][number] {
+		const item = this.read().categories.find((entry) => entry.category === category);
+		if (!item) throw new Error(`Category ${category} not found in state`);
+		return item;
+	}
+
+	exists(): boolean {
+		return fs.existsSync(this.filePath);
+	}
+
+	refresh(): boolean {
+		if (!this.document || this.fileStamp() === this.stamp) return false;
+		this.document = null;
+		return true;
+	}
+
+	load(): LocalAppState {
+		return structuredClone(this.read().categories);
+	}
+
+	saveCategories(categories: CategoryRecord[]): void {
+		const document = this.read();
+
+		for (const record of categories) {
+			const existing = document.categories.find((entry) => entry.category === record.category);
+			if (existing) {
+				Object.assign(existing, record);
+			} else {
+				document.categories.push({ ...record, history: [], issues: [], skipped: [] });
+			}
+		}
+
+		this.write();
+	}
+
+	saveOccurrence(category: string, record: OccurrenceRecord): void {
+		const item = this.requireCategory(category);
+
+		item.history = item.history.filter((entry) => entry.issueNumber !== record.issueNumber);
+		item.history.push(record);
+		item.history.sort((a, b) => a.date.localeCompare(b.date) || a.issueNumber - b.issueNumber);
+
+		this.write();
+	}
+
+	saveCreatedIssue(category: string, record: CreatedIssueRecord): void {
+		const item = this.requireCategory(category);
+
+		item.issues = item.issues.filter((entry) => entry.issueNumber !== record.issueNumber);
+		item.issues.push(record);
+		item.issues.sort((a, b) => a.date.localeCompare(b.date) || a.issueNumber - b.issueNumber);
+
+		this.write();
+	}
+
+	saveMigratedTodos(category: string, records: MigratedTodoRecord[]): void {
+		this.read().migratedTodos.push(...records.map((record) => ({ category, ...record })));
+		this.write();
+	}
+
+	saveSkippedDay(category: string, date: string): void {
+		const item = this.requireCategory(category);
+
+		item.skipped = [...new Set([...item.skipped, date])].sort();
+
+		this.write();
+	}
+
+	loadMigratedTodos(): StoredMigratedTodo[] {
+		return structuredClone(this.read().migratedTodos);
+	}
+
+	importState(state: LocalAppState, migratedTodos: StoredMigratedTodo[]): void {
+		this.document = { version: STATE_VERSION, categories: structuredClone(state), migratedTodos: [...migratedTodos] };
+		this.write();
+	}
+}
@@ -0,0 +1,262 @@
+import { logger, clock } from "@/utils";
+import { describeBoard } from "@/services/issueTracker";
+import type {
+	BoardItemFields,
+	BoardRef,
+	CreateIssueInput,
+	IssueData,
+	IssueQueryOptions,
+	IssueTracker,
+} from "@/services/issueTracker";
+
+export interface InMemoryIssueTrackerOptions {
+	user?: string;
+	// Read-only fallback for the authenticated user, labels and boards (never mutated)
+	source?: IssueTracker;
+	// Prefix for every mutation log line
+	logPrefix?: string;
+}
+
+/**
+ * Issue tracker that keeps everything in memory and logs each mutation
+ * instead of performing it. Backs --dry-run.
+ */
+export class InMemoryIssueTracker implements IssueTracker {
+	private issues = new Map<number, IssueData>();
+	private labels = new Map<string, string>();
+	private boards = new Set<string>();
+	private boardItems = new Map<number, BoardItemFields>();
+	private comments = new Map<number, string[]>();
+	// Sub-issue number -> parent issue number
+	private parents = new Map<number, number>();
+	private nextIssueNumber = 1;
+	private user: string;
+	private logPrefix: string;
+	private source: IssueTracker | null;
+
+	constructor(options: InMemoryIssueTrackerOptions = {}) {
+		this.user = options.user ?? "dry-run";
+		this.logPrefix = options.logPrefix ?? "[dry-run]";
+		this.source = options.source ?? null;
+	}
+
+	/**
+	 * Preload existing issues (e.g. read from GitHub) so lookups behave like the real repo.
+	 * New issues are numbered after `latestIssueNumber`, which should cover issues that are not seeded.
+	 */
+	seed(issues: IssueData[], latestIssueNumber = 0): void {
+		this.nextIssueNumber = Math.max(this.nextIssueNumber, latestIssueNumber + 1);
+		for (const issue of issues) {
+			this.issues.set(issue.number, { ...issue, labels: [...issue.labels] });
+			this.nextIssueNumber = Math.max(this.nextIssueNumber, issue.number + 1);
+			for (const label of issue.labels) {
+				if (!this.labels.has(label)) this.labels.set(label, "ededed");
+			}
+		}
+	}
+
+	getComments(issueNumber: number): string[] {
+		return [...(this.comments.get(issueNumber) ?? [])];
+	}
+
+	getIssue(issueNumber: number): IssueData | null {
+		return this.issues.get(issueNumber) ?? null;
+	}
+
+	parentOf(issueNumber: number): number | null {
+		return this.parents.get(issueNumber) ?? null;
+	}
+
+	listIssues(): IssueData[] {
+		return [...this.issues.values()];
+	}
+
+	// Copy of an issue with its sub-issue summary computed from local links (seeded summaries are kept otherwise)
+	private snapshot(issue: IssueData): IssueData {
+		const children = this.listIssues().filter((candidate) => this.parents.get(candidate.number) === issue.number);
+		const subIssues =
+			children.length > 0
+				? { total: children.length, completed: children.filter((child) => child.state === "closed").length }
+				: issue.subIssues;
+
+		return { ...issue, labels: [...issue.labels], ...(subIssues ? { subIssues: { ...subIssues } } : {}) };
+	}
+
+	// Looks up an issue about to be mutated and bumps its updatedAt
+	private requireIssue(issueNumber: number): IssueData {
+		const issue = this.issues.get(issueNumber);
+		if (!issue) {
+			throw new Error(`Issue #${issueNumber} not found`);
+		}
+		issue.updatedAt = clock.now().toISOString();
+		return issue;
+	}
+
+	async getAuthenticatedUser(): Promise<string> {
+		return this.source ? this.source.getAuthenticatedUser() : this.user;
+	}
+
+	async labelExists(name: string): Promise<boolean> {
+		if (this.labels.has(name)) return true;
+		return this.source ? this.source.labelExists(name) : false;
+	}
+
+	async createLabel(name: string, color: string): Promise<void> {
+		if (await this.labelExists(name)) {
+			logger.debug({ label: name }, "Label already exists");
+			return;
+		}
+
+		this.labels.set(name, color);
+		logger.info({ label: name, color }, `${this.logPrefix} Would create label`);
+	}
+
+	async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+		const issue = this.requireIssue(issueNumber);
+		const toAdd = [...new Set([...labels, "pm-managed"])].filter((label) => !issue.labels.includes(label));
+
+		issue.labels.push(...toAdd);
+		logger.info({ issueNumber, labels: toAdd }, `${this.logPrefix} Would add labels`);
+	}
+
+	async removeLabel(issueNumber: number, label: string): Promise<void> {
+		const issue = this.requireIssue(issueNumber);
+		issue.labels = issue.labels.filter((l) => l !== label);
+
+		logger.info({ issueNumber, label }, `${this.logPrefix} Would remove label`);
+	}
+
+	async createIssue(params: CreateIssueInput): Promise<number> {
+		const labels = [...new Set([...params.labels, "pm-managed"])];
+		const issueNumber = this.nextIssueNumber++;
+
+		this.issues.set(issueNumber, {
+			number: issueNumber,
+			title: params.title,
+			body: params.body,
+			labels,
+			assignees: params.assignees ?? [],
+			state: "open",
+			createdAt: clock.now().toISOString(),
+			updatedAt: clock.now().toISOString(),
+		});
+
+		logger.info(
+			{
+				issueNumber,
+				title: params.title,
+				labels,
+				assignees: params.assignees ?? [],
+				milestone: params.milestone,
+				type: params.type,
+				body: params.body,
+			},
+			`${this.logPrefix} Would create issue`
+		);
+
+		return issueNumber;
+	}
+
+	async updateIssueBody(issueNumber: number, body: string): Promise<void> {
+		this.requireIssue(issueNumber).body = body;
+		logger.info({ issueNumber, body }, `${this.logPrefix} Would update issue body`);
+	}
+
+	async closeIssue(issueNumber: number): Promise<void> {
+		this.requireIssue(issueNumber).state = "closed";
+		logger.info({ issueNumber }, `${this.logPrefix} Would close issue`);
+	}
+
+	async setAssignees(issueNumber: number, assignees: string[]): Promise<void> {
+		this.requireIssue(issueNumber).assignees = [...assignees];
+		logger.info({ issueNumber, assignees }, `${this.logPrefix} Would reassign issue`);
+	}
+
+	async addComment(issueNumber: number, body: string): Promise<void> {
+		this.requireIssue(issueNumber);
+		this.comments.set(issueNumber, [...(this.comments.get(issueNumber) ?? []), body]);
+
+		logger.info({ issueNumber, body }, `${this.logPrefix} Would add comment`);
+	}
+
+	async getIssuesByLabels(
+		labels: string[],
+		state: "open" | "closed" | "all" = "all",
+		options: IssueQueryOptions = {}
+	): Promise<IssueData[]> {
+		const required = [...new Set([...labels, "pm-managed"])];
+		const since = options.since ? new Date(options.since).getTime() : null;
+
+		return this.listIssues()
+			.filter((issue) => state === "all" || issue.state === state)
+			.filter((issue) => required.every((label) => issue.labels.includes(label)))
+			.filter((issue) => since === null || new Date(issue.updatedAt).getTime() >= since)
+			.sort((a, b) => b.number - a.number)
+			.slice(0, options.limit)
+			.map((issue) => this.snapshot(issue));
+	}
+
+	async addSubIssue(parentNumber: number, childNumber: number, options: { replaceParent?: boolean } = {}): Promise<void> {
+		this.requireIssue(parentNumber);
+		this.requireIssue(childNumber);
+
+		const currentParent = this.parents.get(childNumber);
+		if (currentParent !== undefined && currentParent !== parentNumber && !options.replaceParent) {
+			throw new Error(`Issue #${childNumber} is already a sub-issue of #${currentParent}`);
+		}
+
+		this.parents.set(childNumber, parentNumber);
+		logger.info({ parentNumber, childNumber }, `${this.logPrefix} Would link sub-issue`);
+	}
+
+	async getSubIssues(parentNumber: number): Promise<IssueData[]> {
+		const children = this.listIssues()
+			.filter((issue) => this.parents.get(issue.number) === parentNumber)
+			.sort((a, b) => a.number - b.number)
+			.map((issue) => this.snapshot(issue));
+
+		// Seeded parents keep their sub-issues on GitHub
+		if (children.length === 0 && this.source && this.issues.get(parentNumber)?.subIssues) {
+			return this.source.getSubIssues(parentNumber);
+		}
+
+		return children;
+	}
+
+	async kanbanBoardExists(board: BoardRef): Promise<boolean> {
+		if (this.boards.has(describeBoard(board))) return true;
+		return this.source ? this.source.kanbanBoardExists(board) : false;
+	}
+
+	async createKanbanBoard(board: BoardRef): Promise<void> {
+		if (await this.kanbanBoardExists(board)) return;
+
+		this.boards.add(describeBoard(board));
+		logger.info({ board: describeBoard(board) }, `${this.logPrefix} Would create Kanban board with 6 workflows`);
+	}
+
+	// Checking what is missing needs the real board, so nothing is reported as fixed
+	async repairKanbanBoard(board: BoardRef): Promise<string[]> {
+		if (!(await this.kanbanBoardExists(board))) {
+			throw new Error(`Board ${describeBoard(board)} not found`);
+		}
+
+		logger.info({ board: describeBoard(board) }, `${this.logPrefix} Would repair Kanban board`);
+		return [];
+	}
+
+	async setBoardItem(board: BoardRef, issueNumber: number, fields: BoardItemFields): Promise<void> {
+		// Board fields live on the project item, so the issue itself is not touched
+		if (!this.issues.has(issueNumber)) {
+			throw new Error(`Issue #${issueNumber} not found`);
+		}
+		const item = { ...this.boardItems.get(issueNumber), ...fields };
+
+		this.boardItems.set(issueNumber, item);
+		logger.info({ board: describeBoard(board), issueNumber, fields }, `${this.logPrefix} Would set board item`);
+	}
+
+	getBoardItem(issueNumber: number): BoardItemFields | null {
+		return this.boardItems.get(issueNumber) ?? null;
+	}
+}
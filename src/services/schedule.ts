@@ -2,50 +2,357 @@ import yaml from "js-yaml";
 import fs from "fs";
 import path from "path";
 import { logger } from "@/utils";
+import { isValidTimezone } from "@/utils/clock";
+import { workspaceContext } from "@/utils/workspaceContext";
+import * as cron from "node-cron";
 import { z, prettifyError } from "zod";
 
+const WEEKDAY_NAMES = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"] as const;
+
+const lowercase = (value: unknown) => (typeof value === "string" ? value.toLowerCase() : value);
+
+const WeekdaySchema = z.preprocess(lowercase, z.enum(WEEKDAY_NAMES));
+
+// js-yaml turns unquoted 2026-11-01 into a Date; accept both forms
+const DateSchema = z.preprocess(
+	(value) => (value instanceof Date ? value.toISOString().split("T")[0] : value),
+	z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD format")
+);
+
+const RecurrenceSchema = z
+	.object({
+		// Weekdays the task runs on, or [daily]
+		days: z.array(z.preprocess(lowercase, z.enum([...WEEKDAY_NAMES, "daily"]))).min(1).optional(),
+
+		// Every N days/weeks counted from `anchor`; weeks start on the anchor's Monday
+		every: z
+			.object({
+				interval: z.number().int().min(1),
+				unit: z.enum(["days", "weeks"]),
+				anchor: DateSchema,
+			})
+			.optional(),
+
+		// A day of the month (1-31 or "last"), or the nth/last weekday of the month
+		monthly: z
+			.union([
+				z.object({ day: z.union([z.number().int().min(1).max(31), z.literal("last")]) }),
+				z.object({ weekday: WeekdaySchema, nth: z.union([z.number().int().min(1).max(5), z.literal("last")]) }),
+			])
+			.optional(),
+
+		// Raw cron expression; only its day-of-month, month and day-of-week fields are used
+		cron: z
+			.string()
+			.refine((expression) => cron.validate(expression), { message: "Invalid cron expression" })
+			.optional(),
+
+		start: DateSchema.optional(),
+		end: DateSchema.optional(),
+		exceptDates: z.array(DateSchema).default([]),
+	})
+	.refine((recurrence) => recurrence.days || recurrence.every || recurrence.monthly || recurrence.cron, {
+		message: "Recurrence needs at least one of days, every, monthly or cron",
+	})
+	.refine((recurrence) => !recurrence.start || !recurrence.end || recurrence.start <= recurrence.end, {
+		message: "Recurrence start must not be after end",
+		path: ["end"],
+	});
+
+// Compares another category's recorded outcome before the issue is created
+const WhenConditionSchema = z.object({
+	category: z.string().min(1),
+	outcome: z.enum(["complete", "incomplete"]),
+	// last: the category's most recent earlier occurrence; yesterday: only an occurrence from yesterday counts
+	occurrence: z.enum(["last", "yesterday"]).default("last"),
+});
+
 const TaskSchema = z.object({
 	name: z.string(),
 	category: z.string(),
-	recurrence: z.object({
-		days: z.array(z.union([z.string(), z.literal("daily")])),
-	}),
+	recurrence: RecurrenceSchema,
+
+	// Issue title template; defaults to the name
+	title: z.string().min(1).optional(),
 
 	deadline: z.string().regex(/^\d{2}:\d{2}$/, "Expected HH:MM format"),
+	// Template for the issue body (see templateRenderer)
 	description: z.string(),
+
+	// Offsets before the deadline to post a reminder comment, e.g. ["-60m", "-15m", "-2h"]
+	reminders: z.array(z.string().regex(/^-\d+[mh]$/, "Expected an offset like -15m or -1h")).default([]),
+
+	// Create one sub-issue per top-level checklist item instead of checkboxes; closing a sub-issue ticks it off
+	subIssues: z.boolean().default(false),
+
+	// What to do with todos that keep slipping; without it todos are carried forever
+	carryOver: z
+		.object({
+			// Carries allowed before the policy kicks in
+			maxCarries: z.number().int().min(1),
+			// drop: forget the todo; escalate/backlog: move it into its own issue
+			policy: z.enum(["drop", "escalate", "backlog"]),
+			backlogLabel: z.string().min(1).default("backlog"),
+		})
+		.optional(),
+
+	// Defaults to the token owner when omitted
+	assignees: z.array(z.string().min(1)).optional(),
+	// Added alongside the category label
+	labels: z.array(z.string().min(1)).default([]),
+	// Milestone title; created if it does not exist yet
+	milestone: z.string().min(1).optional(),
+	// Issue type name (e.g. "Task"); requires issue types to be enabled for the owner
+	type: z.string().min(1).optional(),
+
+	// What the deadline does with issues still open; without it they are closed
+	onDeadline: z
+		.object({
+			// close: close them, labelled incomplete when todos remain; label-overdue: keep unfinished ones open with
+			// an overdue label; comment-only: post a summary and leave them open; reassign: hand unfinished ones to `backup`
+			action: z.enum(["close", "label-overdue", "comment-only", "reassign"]).default("close"),
+			// Delay after the deadline before the action runs, e.g. "30m" or "2h"; must end before midnight
+			grace: z.string().regex(/^\d+[mh]$/, "Expected a duration like 30m or 2h").optional(),
+			overdueLabel: z.string().min(1).default("overdue"),
+			backup: z.array(z.string().min(1)).min(1).optional(),
+		})
+		.refine((onDeadline) => onDeadline.action !== "reassign" || onDeadline.backup, {
+			message: "The reassign action needs backup assignees",
+			path: ["backup"],
+		})
+		.optional(),
+
+	// Days missed while pm-manager was down: backfill creates and closes their issues in order,
+	// skip records them as skipped, close only closes the issue left open from before the downtime
+	catchUp: z.enum(["backfill", "skip", "close"]).default("close"),
+
+	// Categories whose issue for the same day must close with every todo checked before this one is created
+	dependsOn: z.array(z.string().min(1)).default([]),
+	// Every condition must hold for the issue to be created
+	when: z.array(WhenConditionSchema).default([]),
 });
 
-const ScheduleSchema = z.object({
-	timezone: z.string(),
-	tasks: z.array(TaskSchema).refine(
-		(tasks) => {
-			const categories = tasks.map((task) => task.category);
-			const uniqueCategories = new Set(categories);
-			return uniqueCategories.size === categories.length;
-		},
-		{
-			message: "Each task category must be unique",
-			path: ["tasks"],
-		}
-	),
+// Completion reports, written once all of a day's deadlines have run
+const ReportsSchema = z.object({
+	// issue: open or update a report issue; markdown: write a file into `directory`
+	outputs: z.array(z.enum(["issue", "markdown"])).min(1).default(["issue"]),
+	directory: z.string().min(1).default("reports"),
+	// Day whose daily report is followed by the weekly rollup; omit for daily reports only
+	weekly: WeekdaySchema.optional(),
+});
+
+// Where a schedule's issues go; everything defaults to the GITHUB_* environment
+const WorkspaceSchema = z.object({
+	// Used in logs and for --workspace; defaults to the file name without extension
+	name: z
+		.string()
+		.regex(/^[\w-]+$/, "Use letters, digits, - and _ only")
+		.optional(),
+	repo: z
+		.string()
+		.regex(/^[\w.-]+\/[\w.-]+$/, "Expected owner/repo")
+		.optional(),
+	// Name of the environment variable holding this workspace's token
+	tokenEnv: z.string().min(1).optional(),
+	// Board title, or { number } / { id } to reuse one existing board exactly (e.g. when titles repeat)
+	board: z
+		.union([
+			z
+				.string()
+				.min(1)
+				.transform((title) => ({ title })),
+			z.object({
+				// Used when the board has to be created
+				title: z.string().min(1).default("Task Manager"),
+				// Project number of the repository owner, as in /orgs/<org>/projects/<number>
+				number: z.number().int().positive().optional(),
+				// Project node ID (PVT_...)
+				id: z.string().min(1).optional(),
+			}),
+		])
+		.default({ title: "Task Manager" }),
+	// Subdirectory of data/ for state; "" keeps state directly in data/
+	stateNamespace: z
+		.string()
+		.regex(/^[\w-]*$/, "Use letters, digits, - and _ only")
+		.optional(),
 });
 
+const ScheduleSchema = z
+	.object({
+		workspace: WorkspaceSchema.optional(),
+		timezone: z.string().refine(isValidTimezone, { message: "Expected a valid IANA timezone (e.g. Asia/Kolkata)" }),
+		reports: ReportsSchema.optional(),
+		tasks: z.array(TaskSchema).refine(
+			(tasks) => {
+				const categories = tasks.map((task) => task.category);
+				const uniqueCategories = new Set(categories);
+				return uniqueCategories.size === categories.length;
+			},
+			{
+				message: "Each task category must be unique",
+				path: ["tasks"],
+			}
+		),
+	})
+	.superRefine((schedule, ctx) => {
+		const categories = new Set(schedule.tasks.map((task) => task.category));
+
+		schedule.tasks.forEach((task, index) => {
+			for (const category of [...task.dependsOn, ...task.when.map((condition) => condition.category)]) {
+				if (!categories.has(category)) {
+					ctx.addIssue({ code: "custom", message: `Unknown category "${category}"`, path: ["tasks", index] });
+				}
+			}
+
+			// The next day's issue migrates todos from closed issues only, so the deadline must run the same day
+			const [hours, minutes] = task.deadline.split(":").map(Number);
+			if (hours! * 60 + minutes! + graceMinutes(task.onDeadline) >= 24 * 60) {
+				ctx.addIssue({ code: "custom", message: "onDeadline.grace runs past midnight", path: ["tasks", index, "onDeadline"] });
+			}
+		});
+
+		const cycle = findDependencyCycle(schedule.tasks);
+		if (cycle) {
+			ctx.addIssue({ code: "custom", message: `Circular dependsOn: ${cycle.join(" -> ")}`, path: ["tasks"] });
+		}
+	});
+
+// "30m" -> 30, "2h" -> 120; 0 without a grace period
+export function graceMinutes(onDeadline: { grace?: string | undefined } | undefined): number {
+	const grace = onDeadline?.grace;
+	if (!grace) return 0;
+
+	const value = Number(grace.slice(0, -1));
+	return grace.endsWith("h") ? value * 60 : value;
+}
+
+// The first dependsOn cycle found, as a closed path of categories, or null
+function findDependencyCycle(tasks: Array<{ category: string; dependsOn: string[] }>): string[] | null {
+	const dependencies = new Map(tasks.map((task) => [task.category, task.dependsOn]));
+	const done = new Set<string>();
+
+	const visit = (category: string, trail: string[]): string[] | null => {
+		if (trail.includes(category)) return [...trail.slice(trail.indexOf(category)), category];
+		if (done.has(category)) return null;
+
+		for (const dependency of dependencies.get(category) ?? []) {
+			const cycle = visit(dependency, [...trail, category]);
+			if (cycle) return cycle;
+		}
+
+		done.add(category);
+		return null;
+	};
+
+	for (const task of tasks) {
+		const cycle = visit(task.category, []);
+		if (cycle) return cycle;
+	}
+
+	return null;
+}
+
 export type ScheduleConfig = z.infer<typeof ScheduleSchema>;
+export type TaskConfig = ScheduleConfig["tasks"][number];
+export type RecurrenceConfig = TaskConfig["recurrence"];
+export type CarryOverConfig = NonNullable<TaskConfig["carryOver"]>;
+export type OnDeadlineConfig = NonNullable<TaskConfig["onDeadline"]>;
+export type WhenConditionConfig = TaskConfig["when"][number];
+export type ReportsConfig = NonNullable<ScheduleConfig["reports"]>;
+export type WorkspaceConfig = NonNullable<ScheduleConfig["workspace"]>;
 
-export function loadSchedule(): ScheduleConfig | null {
-	const schedulePath = path.resolve("schedule.yaml");
+export interface ScheduleDiff {
+	added: TaskConfig[];
+	removed: TaskConfig[];
+	changed: Array<{ previous: TaskConfig; next: TaskConfig }>;
+}
+
+const DEFAULT_SCHEDULE_PATH = path.resolve("schedule.yaml");
+
+// Inside a workspace the default is that workspace's schedule file
+export function currentSchedulePath(): string {
+	return workspaceContext.current()?.schedulePath ?? DEFAULT_SCHEDULE_PATH;
+}
 
+export type ScheduleParseResult = { success: true; schedule: ScheduleConfig } | { success: false; error: string };
+
+export function parseSchedule(schedulePath: string = currentSchedulePath()): ScheduleParseResult {
 	try {
 		const fileContents = fs.readFileSync(schedulePath, "utf8");
-		const data = yaml.load(fileContents) as ScheduleConfig;
-		return ScheduleSchema.parse(data);
+		const data = yaml.load(fileContents);
+		return { success: true, schedule: ScheduleSchema.parse(data) };
 	} catch (error) {
 		if (error instanceof z.ZodError) {
-			const prettyError = prettifyError(error);
-			logger.error({ error: prettyError }, "Validation failed for schedule.yaml");
-		} else {
-			logger.error({ error }, `Error reading ${schedulePath}`);
+			return { success: false, error: prettifyError(error) };
 		}
-		process.exit(1);
+		return { success: false, error: `Error reading ${schedulePath}: ${(error as Error).message}` };
+	}
+}
+
+export function loadSchedule(schedulePath: string = currentSchedulePath()): ScheduleConfig | null {
+	const result = parseSchedule(schedulePath);
+
+	if (!result.success) {
+		logger.error({ schedulePath, error: result.error }, "Schedule validation failed");
+		return null;
 	}
+
+	return result.schedule;
+}
+
+export function diffSchedules(previous: ScheduleConfig, next: ScheduleConfig): ScheduleDiff {
+	const previousByCategory = new Map(previous.tasks.map((task) => [task.category, task]));
+	const nextCategories = new Set(next.tasks.map((task) => task.category));
+
+	const diff: ScheduleDiff = { added: [], removed: [], changed: [] };
+
+	for (const task of next.tasks) {
+		const existing = previousByCategory.get(task.category);
+		if (!existing) {
+			diff.added.push(task);
+		} else if (JSON.stringify(existing) !== JSON.stringify(task)) {
+			diff.changed.push({ previous: existing, next: task });
+		}
+	}
+
+	for (const task of previous.tasks) {
+		if (!nextCategories.has(task.category)) {
+			diff.removed.push(task);
+		}
+	}
+
+	return diff;
+}
+
+/**
+ * Polls schedule.yaml for edits and hands every valid revision to `onChange`.
+ * Invalid revisions are logged by loadSchedule and ignored.
+ * Polling (rather than fs.watch) survives editors that replace the file and Docker bind mounts.
+ */
+export function watchSchedule(
+	onChange: (schedule: ScheduleConfig) => void | Promise<void>,
+	schedulePath: string = currentSchedulePath()
+): () => void {
+	// Bound so reloads run in the workspace that started watching
+	const listener = workspaceContext.bind((current: fs.Stats, previous: fs.Stats) => {
+		if (current.mtimeMs === previous.mtimeMs) return;
+
+		logger.info({ schedulePath }, "Schedule file changed, reloading");
+
+		const schedule = loadSchedule(schedulePath);
+		if (!schedule) {
+			logger.warn("Schedule edit is invalid, keeping the current schedule");
+			return;
+		}
+
+		Promise.resolve(onChange(schedule)).catch((error) => {
+			logger.error({ error }, "Failed to apply reloaded schedule");
+		});
+	});
+
+	fs.watchFile(schedulePath, { interval: 2000 }, listener);
+	logger.info({ schedulePath }, "Watching schedule for changes");
+
+	return () => fs.unwatchFile(schedulePath, listener);
 }
@@ -0,0 +1,346 @@
+import fs from "fs";
+import path from "path";
+import type Database from "better-sqlite3";
+import { z, prettifyError } from "zod";
+import { logger } from "@/utils";
+import { LocalIssueStateSchema, StateFileError } from "@/services/stateBackend";
+import type {
+	StateBackend,
+	LocalAppState,
+	CategoryRecord,
+	OccurrenceRecord,
+	CreatedIssueRecord,
+	MigratedTodoRecord,
+	StoredMigratedTodo,
+} from "@/services/stateBackend";
+
+/**
+ * Schema changes, applied in order. PRAGMA user_version records how many have run.
+ */
+const MIGRATIONS: string[] = [
+	`
+	CREATE TABLE categories (
+		category TEXT PRIMARY KEY,
+		deadline TEXT NOT NULL,
+		last_created_date TEXT,
+		deadline_processed_date TEXT
+	);
+
+	CREATE TABLE occurrences (
+		category TEXT NOT NULL REFERENCES categories (category),
+		date TEXT NOT NULL,
+		issue_number INTEGER NOT NULL,
+		outcome TEXT NOT NULL CHECK (outcome IN ('complete', 'incomplete')),
+		checked_todos INTEGER NOT NULL,
+		total_todos INTEGER NOT NULL,
+		PRIMARY KEY (category, issue_number)
+	);
+	CREATE INDEX occurrences_by_date ON occurrences (category, date);
+
+	CREATE TABLE issues_created (
+		category TEXT NOT NULL REFERENCES categories (category),
+		date TEXT NOT NULL,
+		issue_number INTEGER NOT NULL,
+		PRIMARY KEY (category, issue_number)
+	);
+	CREATE INDEX issues_created_by_date ON issues_created (category, date);
+
+	CREATE TABLE todos_migrated (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		category TEXT NOT NULL REFERENCES categories (category),
+		date TEXT NOT NULL,
+		issue_number INTEGER NOT NULL,
+		source_issue INTEGER NOT NULL,
+		text TEXT NOT NULL,
+		carry_count INTEGER NOT NULL,
+		first_seen TEXT NOT NULL
+	);
+	CREATE INDEX todos_migrated_by_issue ON todos_migrated (category, issue_number);
+	`,
+	`
+	CREATE TABLE days_skipped (
+		category TEXT NOT NULL REFERENCES categories (category),
+		date TEXT NOT NULL,
+		PRIMARY KEY (category, date)
+	);
+	`,
+	`
+	ALTER TABLE occurrences ADD COLUMN action TEXT NOT NULL DEFAULT 'closed'
+		CHECK (action IN ('closed', 'overdue', 'commented', 'reassigned'));
+	`,
+	`
+	ALTER TABLE categories ADD COLUMN caught_up_date TEXT;
+	`,
+];
+
+interface CategoryRow {
+	category: string;
+	deadline: string;
+	last_created_date: string | null;
+	deadline_processed_date: string | null;
+	caught_up_date: string | null;
+}
+
+interface OccurrenceRow {
+	category: string;
+	date: string;
+	issue_number: number;
+	outcome: string;
+	checked_todos: number;
+	total_todos: number;
+	action: string;
+}
+
+interface CreatedIssueRow {
+	category: string;
+	date: string;
+	issue_number: number;
+}
+
+interface SkippedDayRow {
+	category: string;
+	date: string;
+}
+
+interface MigratedTodoRow {
+	category: string;
+	date: string;
+	issue_number: number;
+	source_issue: number;
+	text: string;
+	carry_count: number;
+	first_seen: string;
+}
+
+export class SqliteStateBackend implements StateBackend {
+	private db: Database.Database | null = null;
+	// PRAGMA data_version when last checked; it only changes on commits from other connections
+	private dataVersion = 0;
+
+	/**
+	 * A read-only backend works on an in-memory copy of the database, so dry runs
+	 * neither create nor migrate the file on disk.
+	 */
+	constructor(
+		private readonly filePath: string = path.resolve("data", "state.db"),
+		private readonly readOnly = false
+	) {}
+
+	get location(): string {
+		return this.filePath;
+	}
+
+	// Loaded on first use so the JSON backend never needs the native module
+	private connect(): Database.Database {
+		const Sqlite = require("better-sqlite3") as typeof Database;
+		if (!this.readOnly) {
+			fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+			const db = new Sqlite(this.filePath);
+			db.pragma("journal_mode = WAL");
+			return db;
+		}
+
+		if (!fs.existsSync(this.filePath)) return new Sqlite(":memory:");
+		const file = new Sqlite(this.filePath, { readonly: true, fileMustExist: true });
+		try {
+			// An in-memory copy cannot use WAL; header bytes 18-19 switch it back to a rollback journal
+			const image = file.serialize();
+			image[18] = 1;
+			image[19] = 1;
+			return new Sqlite(image);
+		} finally {
+			file.close();
+		}
+	}
+
+	// Opens the database on first use and brings its schema up to date
+	private open(): Database.Database {
+		if (this.db) return this.db;
+
+		try {
+			const db = this.connect();
+			db.pragma("foreign_keys = ON");
+
+			const version = db.pragma("user_version", { simple: true }) as number;
+			for (let index = version; index < MIGRATIONS.length; index++) {
+				db.transaction(() => {
+					db.exec(MIGRATIONS[index]!);
+					db.pragma(`user_version = ${index + 1}`);
+				})();
+				logger.info({ from: index, to: index + 1 }, "Migrated state database");
+			}
+
+			this.dataVersion = db.pragma("data_version", { simple: true }) as number;
+			this.db = db;
+			return db;
+		} catch (error) {
+			throw new StateFileError(this.filePath, (error as Error).message);
+		}
+	}
+
+	exists(): boolean {
+		if (!fs.existsSync(this.filePath)) return false;
+		const row = this.open().prepare("SELECT COUNT(*) AS count FROM categories").get() as { count: number };
+		return row.count > 0;
+	}
+
+	refresh(): boolean {
+		if (!this.db) return false;
+
+		const version = this.db.pragma("data_version", { simple: true }) as number;
+		if (version === this.dataVersion) return false;
+		this.dataVersion = version;
+		return true;
+	}
+
+	load(): LocalAppState {
+		const db = this.open();
+
+		let state: unknown;
+		try {
+			const categories = db.prepare("SELECT * FROM categories ORDER BY rowid").all() as CategoryRow[];
+			const occurrences = db
+				.prepare("SELECT * FROM occurrences ORDER BY date, issue_number")
+				.all() as OccurrenceRow[];
+			const issues = db.prepare("SELECT * FROM issues_created ORDER BY date, issue_number").all() as CreatedIssueRow[];
+			const skipped = db.prepare("SELECT * FROM days_skipped ORDER BY date").all() as SkippedDayRow[];
+
+			state = categories.map((row) => ({
+				category: row.category,
+				deadline: row.deadline,
+				lastCreatedDate: row.last_created_date,
+				deadlineProcessedDate: row.deadline_processed_date,
+				caughtUpDate: row.caught_up_date,
+				history: occurrences
+					.filter((o) => o.category === row.category)
+					.map((o) => ({
+						date: o.date,
+						issueNumber: o.issue_number,
+						outcome: o.outcome,
+						checkedTodos: o.checked_todos,
+						totalTodos: o.total_todos,
+						action: o.action,
+					})),
+				issues: issues
+					.filter((i) => i.category === row.category)
+					.map((i) => ({ date: i.date, issueNumber: i.issue_number })),
+				skipped: skipped.filter((s) => s.category === row.category).map((s) => s.date),
+			}));
+		} catch (error) {
+			throw new StateFileError(this.filePath, (error as Error).message);
+		}
+
+		const result = z.array(LocalIssueStateSchema).safeParse(state);
+		if (!result.success) {
+			throw new StateFileError(this.filePath, prettifyError(result.error));
+		}
+
+		return result.data;
+	}
+
+	saveCategories(categories: CategoryRecord[]): void {
+		const db = this.open();
+		const upsert = db.prepare(`
+			INSERT INTO categories (category, deadline, last_created_date, deadline_processed_date, caught_up_date)
+			VALUES (@category, @deadline, @lastCreatedDate, @deadlineProcessedDate, @caughtUpDate)
+			ON CONFLICT (category) DO UPDATE SET
+				deadline = excluded.deadline,
+				last_created_date = excluded.last_created_date,
+				deadline_processed_date = excluded.deadline_processed_date,
+				caught_up_date = excluded.caught_up_date
+		`);
+
+		db.transaction(() => {
+			for (const record of categories) {
+				upsert.run({
+					category: record.category,
+					deadline: record.deadline,
+					lastCreatedDate: record.lastCreatedDate,
+					deadlineProcessedDate: record.deadlineProcessedDate,
+					caughtUpDate: record.caughtUpDate,
+				});
+			}
+		})();
+	}
+
+	saveOccurrence(category: string, record: OccurrenceRecord): void {
+		this.open()
+			.prepare(
+				`INSERT OR REPLACE INTO occurrences (category, date, issue_number, outcome, checked_todos, total_todos, action)
+				VALUES (?, ?, ?, ?, ?, ?, ?)`
+			)
+			.run(
+				category,
+				record.date,
+				record.issueNumber,
+				record.outcome,
+				record.checkedTodos,
+				record.totalTodos,
+				record.action
+			);
+	}
+
+	saveCreatedIssue(category: string, record: CreatedIssueRecord): void {
+		this.open()
+			.prepare("INSERT OR REPLACE INTO issues_created (category, date, issue_number) VALUES (?, ?, ?)")
+			.run(category, record.date, record.issueNumber);
+	}
+
+	saveMigratedTodos(category: string, records: MigratedTodoRecord[]): void {
+		const db = this.open();
+		const insert = db.prepare(
+			`INSERT INTO todos_migrated (category, date, issue_number, source_issue, text, carry_count, first_seen)
+			VALUES (?, ?, ?, ?, ?, ?, ?)`
+		);
+
+		db.transaction(() => {
+			for (const record of records) {
+				insert.run(
+					category,
+					record.date,
+					record.issueNumber,
+					record.sourceIssue,
+					record.text,
+					record.carryCount,
+					record.firstSeen
+				);
+			}
+		})();
+	}
+
+	saveSkippedDay(category: string, date: string): void {
+		this.open().prepare("INSERT OR IGNORE INTO days_skipped (category, date) VALUES (?, ?)").run(category, date);
+	}
+
+	loadMigratedTodos(): StoredMigratedTodo[] {
+		const rows = this.open().prepare("SELECT * FROM todos_migrated ORDER BY id").all() as MigratedTodoRow[];
+
+		return rows.map((row) => ({
+			category: row.category,
+			date: row.date,
+			issueNumber: row.issue_number,
+			sourceIssue: row.source_issue,
+			text: row.text,
+			carryCount: row.carry_count,
+			firstSeen: row.first_seen,
+		}));
+	}
+
+	importState(state: LocalAppState, migratedTodos: StoredMigratedTodo[]): void {
+		const db = this.open();
+
+		db.transaction(() => {
+			this.saveCategories(state);
+
+			for (const item of state) {
+				for (const record of item.history) this.saveOccurrence(item.category, record);
+				for (const record of item.issues) this.saveCreatedIssue(item.category, record);
+				for (const date of item.skipped) this.saveSkippedDay(item.category, date);
+			}
+
+			for (const { category, ...record } of migratedTodos) {
+				this.saveMigratedTodos(category, [record]);
+			}
+		})();
+	}
+}
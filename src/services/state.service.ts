@@ -1,81 +1,301 @@
-import fs from "fs";
 import path from "path";
 import { logger } from "@/utils";
+import { workspaceContext } from "@/utils/workspaceContext";
+import { config } from "@/config";
+import { JsonStateBackend } from "@/services/jsonState.service";
+import { SqliteStateBackend } from "@/services/sqliteState.service";
+import type {
+	StateBackend,
+	LocalAppState,
+	LocalIssueState,
+	CategoryRecord,
+	OccurrenceRecord,
+	CreatedIssueRecord,
+	MigratedTodoRecord,
+} from "@/services/stateBackend";
 
-export interface LocalIssueState {
-	category: string;
-	deadline: string; // HH:MM format
-	lastCreatedDate: string | null; // YYYY-MM-DD or null
-	deadlineProcessedDate: string | null; // YYYY-MM-DD or null
+export interface Streaks {
+	// Complete occurrences in a row, up to the latest one
+	current: number;
+	longest: number;
 }
 
-export type LocalAppState = LocalIssueState[];
+interface StateStore {
+	backend: StateBackend;
+	// Single in-memory copy of the state; every change goes through this service
+	cache: LocalAppState | null;
+	detached: boolean;
+}
+
+// data/ for the default namespace, data/<namespace>/ for other workspaces
+function stateDirectory(namespace: string): string {
+	return path.resolve("data", namespace);
+}
+
+// Read-only backends never write to disk (dry runs)
+function createBackend(namespace: string, readOnly = false): StateBackend {
+	const directory = stateDirectory(namespace);
+	return config.STATE_BACKEND === "sqlite"
+		? new SqliteStateBackend(path.join(directory, "state.db"), readOnly)
+		: new JsonStateBackend(path.join(directory, "state.json"));
+}
 
 class StateService {
-	private filePath: string;
+	// One store per workspace state namespace
+	private stores = new Map<string, StateStore>();
 
-	constructor() {
-		this.filePath = path.resolve("data", "state.json");
+	private get namespace(): string {
+		return workspaceContext.current()?.stateNamespace ?? "";
 	}
 
-	load(): LocalAppState {
-		try {
-			if (!fs.existsSync(this.filePath)) {
-				logger.warn("State file not found, returning empty state");
-				return [];
-			}
+	private get store(): StateStore {
+		let store = this.stores.get(this.namespace);
+		if (!store) {
+			store = { backend: createBackend(this.namespace), cache: null, detached: false };
+			this.stores.set(this.namespace, store);
+		}
+		return store;
+	}
 
-			const fileContent = fs.readFileSync(this.filePath, { encoding: "utf8" });
-			return JSON.parse(fileContent) as LocalAppState;
-		} catch (error) {
-			logger.error({ error }, "Failed to load state file");
-			return [];
+	// Keep further changes in memory only (dry runs); the store is read once and never written
+	detach(): void {
+		const store = this.store;
+		if (!store.cache) {
+			store.backend = createBackend(this.namespace, true);
 		}
+		this.read();
+		store.detached = true;
+		logger.info("State detached from storage, changes will not be saved");
 	}
 
-	save(state: LocalAppState): void {
+	// Loads the backend once; later reads are served from the cache until another process changes the store
+	private read(): LocalAppState {
+		const store = this.store;
+		if (store.cache && !store.detached && store.backend.refresh()) {
+			logger.debug({ location: store.backend.location }, "State changed by another process, reloading");
+			store.cache = null;
+		}
+		if (!store.cache) {
+			store.cache = store.backend.load();
+		}
+		return store.cache;
+	}
+
+	// Applies a change to the cache and, unless detached, to the backend
+	private write(apply: (state: LocalAppState) => void, persist: (backend: StateBackend) => void): void {
+		apply(this.read());
+
+		if (this.store.detached) {
+			logger.debug("State updated in memory");
+			return;
+		}
+
 		try {
-			const dir = path.dirname(this.filePath);
-			if (!fs.existsSync(dir)) {
-				fs.mkdirSync(dir, { recursive: true });
-			}
-
-			const fileContent = JSON.stringify(state, null, 2);
-			fs.writeFileSync(this.filePath, fileContent);
-			logger.debug("State saved successfully");
+			persist(this.store.backend);
 		} catch (error) {
-			logger.error({ error }, "Failed to save state file");
+			logger.error({ error, location: this.store.backend.location }, "Failed to save state");
+			// Drop the cache so the next read reflects what was actually stored
+			this.store.cache = null;
 			throw error;
 		}
 	}
 
+	load(): LocalAppState {
+		return structuredClone(this.read());
+	}
+
+	/**
+	 * Stores the category fields (deadline and dates) of every entry.
+	 * History and created issues are only changed through their record methods.
+	 */
+	save(state: LocalAppState): void {
+		const categories: CategoryRecord[] = state.map(
+			({ category, deadline, lastCreatedDate, deadlineProcessedDate, caughtUpDate }) => ({
+				category,
+				deadline,
+				lastCreatedDate,
+				deadlineProcessedDate,
+				caughtUpDate,
+			})
+		);
+
+		this.write(
+			(cached) => {
+				cached.splice(0, cached.length, ...structuredClone(state));
+			},
+			(backend) => backend.saveCategories(categories)
+		);
+	}
+
 	getByCategory(category: string): LocalIssueState | null {
-		const state = this.load();
-		return state.find((item) => item.category === category) || null;
+		const item = this.read().find((entry) => entry.category === category);
+		return item ? structuredClone(item) : null;
 	}
 
-	updateCategory(category: string, updates: Partial<LocalIssueState>): void {
-		const state = this.load();
-		const index = state.findIndex((item) => item.category === category);
+	updateCategory(category: string, updates: Partial<CategoryRecord>): void {
+		const item = this.read().find((entry) => entry.category === category);
 
-		if (index === -1) {
+		if (!item) {
 			logger.warn({ category }, "Category not found in state");
 			return;
 		}
 
-		const existingItem = state[index]!;
-		state[index] = { ...existingItem, ...updates };
-		this.save(state);
+		const next = { ...item, ...updates };
+		this.write(
+			() => Object.assign(item, updates),
+			(backend) =>
+				backend.saveCategories([
+					{
+						category,
+						deadline: next.deadline,
+						lastCreatedDate: next.lastCreatedDate,
+						deadlineProcessedDate: next.deadlineProcessedDate,
+						caughtUpDate: next.caughtUpDate,
+					},
+				])
+		);
 	}
 
-	markIssueCreated(category: string, date: string): void {
+	markIssueCreated(category: string, date: string, issueNumber?: number): void {
 		this.updateCategory(category, { lastCreatedDate: date });
+
+		if (issueNumber === undefined) return;
+
+		const record = { date, issueNumber };
+		this.write(
+			(state) => {
+				const item = state.find((entry) => entry.category === category);
+				if (!item) return;
+				item.issues = [...item.issues.filter((entry) => entry.issueNumber !== issueNumber), record];
+				item.issues.sort((a, b) => a.date.localeCompare(b.date) || a.issueNumber - b.issueNumber);
+			},
+			(backend) => backend.saveCreatedIssue(category, record)
+		);
 	}
 
 	markDeadlineProcessed(category: string, date: string): void {
 		this.updateCategory(category, { deadlineProcessedDate: date });
 	}
 
+	// Catch-up resumes after this day, whether it was replayed or skipped
+	markCaughtUp(category: string, date: string): void {
+		this.updateCategory(category, { caughtUpDate: date });
+	}
+
+	/**
+	 * Records how an occurrence ended. Recording the same issue again replaces the earlier entry.
+	 */
+	recordOccurrence(category: string, record: OccurrenceRecord): void {
+		const item = this.read().find((entry) => entry.category === category);
+		if (!item) {
+			logger.warn({ category }, "Category not found in state");
+			return;
+		}
+
+		this.write(
+			() => {
+				item.history = item.history.filter((entry) => entry.issueNumber !== record.issueNumber);
+				item.history.push(record);
+				item.history.sort((a, b) => a.date.localeCompare(b.date) || a.issueNumber - b.issueNumber);
+			},
+			(backend) => backend.saveOccurrence(category, record)
+		);
+	}
+
+	// Todos carried into a new issue, kept for history only
+	recordMigratedTodos(category: string, records: MigratedTodoRecord[]): void {
+		if (records.length === 0 || this.store.detached) return;
+
+		try {
+			this.store.backend.saveMigratedTodos(category, records);
+		} catch (error) {
+			logger.warn({ category, error }, "Failed to record migrated todos");
+		}
+	}
+
+	// A day whose issue was never created because pm-manager was down (catch-up policy "skip")
+	recordSkippedDay(category: string, date: string): void {
+		const item = this.read().find((entry) => entry.category === category);
+		if (!item) {
+			logger.warn({ category }, "Category not found in state");
+			return;
+		}
+
+		this.write(
+			() => {
+				item.skipped = [...new Set([...item.skipped, date])].sort();
+			},
+			(backend) => backend.saveSkippedDay(category, date)
+		);
+	}
+
+	/**
+	 * Copies data/state.json into the configured backend. Refuses when the backend
+	 * already holds state, so an import can never overwrite live data.
+	 */
+	importFromJson(jsonPath?: string): { categories: number; migratedTodos: number } {
+		if (this.store.backend instanceof JsonStateBackend) {
+			throw new Error("STATE_BACKEND is json; there is nothing to import into");
+		}
+		if (this.store.backend.exists()) {
+			throw new Error(`${this.store.backend.location} already contains state, refusing to import over it`);
+		}
+
+		const source = new JsonStateBackend(jsonPath ?? path.join(stateDirectory(this.namespace), "state.json"));
+		if (!source.exists()) {
+			throw new Error(`${source.location} does not exist`);
+		}
+
+		const state = source.load();
+		const migratedTodos = source.loadMigratedTodos();
+
+		this.store.backend.importState(state, migratedTodos);
+		this.store.cache = null;
+
+		logger.info(
+			{ from: source.location, to: this.store.backend.location, categories: state.length },
+			"Imported state from JSON"
+		);
+
+		return { categories: state.length, migratedTodos: migratedTodos.length };
+	}
+
+	// Issues created for the category, oldest first
+	getCreatedIssues(category: string): CreatedIssueRecord[] {
+		return this.getByCategory(category)?.issues ?? [];
+	}
+
+	getIssueForDate(category: string, date: string): number | null {
+		const issues = this.getCreatedIssues(category).filter((entry) => entry.date === date);
+		return issues[issues.length - 1]?.issueNumber ?? null;
+	}
+
+	// Most recent issue created for the category, if any
+	getLatestIssue(category: string): CreatedIssueRecord | null {
+		const issues = this.getCreatedIssues(category);
+		return issues[issues.length - 1] ?? null;
+	}
+
+	getHistory(category: string): OccurrenceRecord[] {
+		return this.getByCategory(category)?.history ?? [];
+	}
+
+	getSkippedDays(category: string): string[] {
+		return this.getByCategory(category)?.skipped ?? [];
+	}
+
+	getStreaks(category: string): Streaks {
+		let current = 0;
+		let longest = 0;
+
+		for (const entry of this.getHistory(category)) {
+			current = entry.outcome === "complete" ? current + 1 : 0;
+			longest = Math.max(longest, current);
+		}
+
+		return { current, longest };
+	}
+
 	needsIssueCreation(category: string, date: string): boolean {
 		const item = this.getByCategory(category);
 		if (!item) return true;
@@ -0,0 +1,91 @@
+import { z } from "zod";
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD format");
+
+export const OccurrenceRecordSchema = z.object({
+	date: DateSchema, // YYYY-MM-DD the issue was created for
+	issueNumber: z.number().int(),
+	outcome: z.enum(["complete", "incomplete"]),
+	checkedTodos: z.number().int().min(0),
+	totalTodos: z.number().int().min(0),
+	// What the deadline did with the issue; everything but "closed" leaves it open
+	action: z.enum(["closed", "overdue", "commented", "reassigned"]),
+});
+
+export const CreatedIssueRecordSchema = z.object({
+	date: DateSchema,
+	issueNumber: z.number().int(),
+});
+
+export const MigratedTodoRecordSchema = z.object({
+	date: DateSchema,
+	// Issue the todo was carried into
+	issueNumber: z.number().int(),
+	sourceIssue: z.number().int(),
+	text: z.string(),
+	carryCount: z.number().int().min(1),
+	firstSeen: DateSchema,
+});
+
+export const StoredMigratedTodoSchema = MigratedTodoRecordSchema.extend({ category: z.string() });
+
+export const CategoryRecordSchema = z.object({
+	category: z.string(),
+	deadline: z.string().regex(/^\d{2}:\d{2}$/, "Expected HH:MM format"),
+	lastCreatedDate: DateSchema.nullable(),
+	deadlineProcessedDate: DateSchema.nullable(),
+	// Last day downtime catch-up replayed or skipped
+	caughtUpDate: DateSchema.nullable(),
+});
+
+export const LocalIssueStateSchema = CategoryRecordSchema.extend({
+	history: z.array(OccurrenceRecordSchema), // Oldest first
+	issues: z.array(CreatedIssueRecordSchema), // Oldest first
+	skipped: z.array(DateSchema), // Days missed during downtime and recorded as skipped, oldest first
+});
+
+export type OccurrenceRecord = z.infer<typeof OccurrenceRecordSchema>;
+export type CreatedIssueRecord = z.infer<typeof CreatedIssueRecordSchema>;
+export type MigratedTodoRecord = z.infer<typeof MigratedTodoRecordSchema>;
+export type StoredMigratedTodo = z.infer<typeof StoredMigratedTodoSchema>;
+export type CategoryRecord = z.infer<typeof CategoryRecordSchema>;
+export type LocalIssueState = z.infer<typeof LocalIssueStateSchema>;
+export type LocalAppState = LocalIssueState[];
+
+export class StateFileError extends Error {
+	constructor(filePath: string, reason: string) {
+		super(
+			`State file ${filePath} is unreadable: ${reason}\n` +
+				"Refusing to start, as empty state would recreate every task's issue. " +
+				"Fix the file, restore it from a backup or delete it to start over."
+		);
+		this.name = "StateFileError";
+	}
+}
+
+/**
+ * Where StateService persists its state.
+ * JsonStateBackend keeps everything in data/state.json; SqliteStateBackend uses data/state.db.
+ */
+export interface StateBackend {
+	// Location shown in logs and errors
+	readonly location: string;
+
+	// Whether the store already holds state (used to guard imports)
+	exists(): boolean;
+	// Throws StateFileError when the store exists but cannot be read
+	load(): LocalAppState;
+	// Forgets what was read if another process (e.g. the CLI next to the daemon) changed the store; true if so
+	refresh(): boolean;
+
+	saveCategories(categories: CategoryRecord[]): void;
+	// Replaces an earlier record for the same issue
+	saveOccurrence(category: string, record: OccurrenceRecord): void;
+	saveCreatedIssue(category: string, record: CreatedIssueRecord): void;
+	saveMigratedTodos(category: string, records: MigratedTodoRecord[]): void;
+	saveSkippedDay(category: string, date: string): void;
+
+	loadMigratedTodos(): StoredMigratedTodo[];
+	// Copies the full state of another backend into this one
+	importState(state: LocalAppState, migratedTodos: StoredMigratedTodo[]): void;
+}
@@ -1,38 +1,101 @@
 import { issueCreator } from "@/core/issueCreator";
-import { stateService, githubService } from "@/services";
-import { logger } from "@/utils";
-import type { ScheduleConfig } from "@/services";
+import { taskConditions } from "@/core/taskConditions";
+import { stateService, getIssueTracker } from "@/services";
+import { logger, clock } from "@/utils";
+import { matchesRecurrence } from "@/utils/recurrence";
+import type { ScheduleConfig, IssueTracker, RecurrenceConfig, TaskConfig } from "@/services";
+
+interface CreationCounts {
+	createdCount: number;
+	skippedCount: number;
+	waitingCount: number;
+	failedCount: number;
+}
 
 export class BulkIssueCreator {
-	private getTodayDay(): string {
-		const days = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
-		const today = new Date();
-		return days[today.getDay()]!;
+	private get tracker(): IssueTracker {
+		return getIssueTracker();
+	}
+
+	shouldCreateOn(recurrence: RecurrenceConfig, date: string): boolean {
+		return matchesRecurrence(recurrence, date);
 	}
 
-	private shouldCreateToday(recurrenceDays: string[]): boolean {
-		// Check if "daily" is in the recurrence
-		if (recurrenceDays.includes("daily")) {
-			return true;
+	/**
+	 * When the next issue for a task will be created: now if today's is still pending,
+	 * otherwise midnight of the next day its recurrence matches.
+	 */
+	getNextCreationTime(recurrence: RecurrenceConfig, category: string): Date | null {
+		const today = clock.today();
+
+		if (this.shouldCreateOn(recurrence, today) && stateService.needsIssueCreation(category, today)) {
+			return clock.now();
+		}
+
+		// A year covers every monthly and interval rule at least once
+		for (let offset = 1; offset <= 366; offset++) {
+			const date = clock.addDays(today, offset);
+			if (this.shouldCreateOn(recurrence, date)) {
+				return clock.at(date, "00:00");
+			}
 		}
 
-		// Check if today matches any of the specified days
-		const todayDay = this.getTodayDay();
-		return recurrenceDays.map((d) => d.toLowerCase()).includes(todayDay);
+		return null;
 	}
 
-	async createTodaysIssues(schedule: ScheduleConfig, assignee?: string): Promise<void> {
-		const today = new Date().toISOString().split("T")[0]!;
+	// `tasks` narrows creation to some of the schedule's tasks; conditions still see the whole schedule
+	async createTodaysIssues(schedule: ScheduleConfig, assignee?: string, tasks: TaskConfig[] = schedule.tasks): Promise<void> {
+		logger.info({ date: clock.today() }, "Starting bulk issue creation");
+
+		const counts = await this.createIssues(schedule, tasks, assignee);
+
+		logger.info({ ...counts, total: tasks.length }, "Bulk issue creation complete");
+	}
+
+	/**
+	 * Retries the tasks with dependsOn or when conditions that are still waiting, so a dependent
+	 * issue appears as soon as its prerequisite closes rather than at the next midnight.
+	 */
+	async createDependentIssues(
+		schedule: ScheduleConfig,
+		assignee?: string,
+		tasks: TaskConfig[] = schedule.tasks
+	): Promise<void> {
+		const today = clock.today();
+		const pending = tasks.filter(
+			(task) =>
+				taskConditions.hasConditions(task) &&
+				this.shouldCreateOn(task.recurrence, today) &&
+				stateService.needsIssueCreation(task.category, today)
+		);
+
+		if (pending.length === 0) return;
+
+		// Runs every few minutes, so only report when something was created
+		const counts = await this.createIssues(schedule, pending, assignee, { quiet: true });
+		if (counts.createdCount > 0) {
+			logger.info({ ...counts, total: pending.length }, "Dependent issue creation complete");
+		}
+	}
 
-		logger.info({ date: today }, "Starting bulk issue creation");
+	private async createIssues(
+		schedule: ScheduleConfig,
+		tasks: TaskConfig[],
+		assignee?: string,
+		options: { quiet?: boolean } = {}
+	): Promise<CreationCounts> {
+		const today = clock.today();
+		const logSkip = options.quiet ? logger.debug.bind(logger) : logger.info.bind(logger);
 
 		let createdCount = 0;
 		let skippedCount = 0;
+		let waitingCount = 0;
+		let failedCount = 0;
 
-		for (const task of schedule.tasks) {
+		for (const task of tasks) {
 			try {
 				// Check if we should create this task today
-				if (!this.shouldCreateToday(task.recurrence.days)) {
+				if (!this.shouldCreateOn(task.recurrence, today)) {
 					logger.debug({ category: task.category }, "Task not scheduled for today");
 					skippedCount++;
 					continue;
@@ -45,37 +108,45 @@ export class BulkIssueCreator {
 					continue;
 				}
 
+				// Check dependsOn and when conditions against state and GitHub
+				const condition = await taskConditions.evaluate(schedule, task, today);
+				if (condition.status === "waiting") {
+					logger.debug({ category: task.category, reason: condition.reason }, "Waiting on a prerequisite");
+					waitingCount++;
+					continue;
+				}
+				if (condition.status === "skip") {
+					logSkip({ category: task.category, reason: condition.reason }, "Conditions not met, skipping today");
+					skippedCount++;
+					continue;
+				}
+
 				// Create issue with migration
-				const issueNumber = await issueCreator.createIssueWithMigration({
-					category: task.category,
-					name: task.name,
-					description: task.description,
-					deadline: task.deadline,
-					assignee,
-				});
+				const issueNumber = await issueCreator.createIssueWithMigration(issueCreator.paramsForTask(task, assignee));
 
 				// Mark as created
-				stateService.markIssueCreated(task.category, today);
+				stateService.markIssueCreated(task.category, today, issueNumber);
 				createdCount++;
 
 				logger.info({ issueNumber, category: task.category }, "Issue created successfully");
 			} catch (error) {
-				logger.error({ category: task.category, error }, "Failed to create issue");
-				process.exit(1);
+				// Leave the category unmarked so the next run retries it
+				logger.error({ category: task.category, error }, "Failed to create issue, continuing with the rest");
+				failedCount++;
 			}
 		}
 
-		logger.info({ createdCount, skippedCount, total: schedule.tasks.length }, "Bulk issue creation complete");
+		return { createdCount, skippedCount, waitingCount, failedCount };
 	}
 
 	async ensureLabelsExist(schedule: ScheduleConfig): Promise<void> {
 		logger.info("Ensuring all category labels exist");
 
 		// Always create pm-managed label
-		await githubService.createLabel("pm-managed", "0E8A16");
+		await this.tracker.createLabel("pm-managed", "0E8A16");
 
 		// Create incomplete label
-		await githubService.createLabel("incomplete", "D93F0B");
+		await this.tracker.createLabel("incomplete", "D93F0B");
 
 		// Create category labels
 		const colors = [
@@ -92,10 +163,41 @@ export class BulkIssueCreator {
 			const color = colors[i % colors.length]!;
 
 			try {
-				await githubService.createLabel(task.category, color);
+				await this.tracker.createLabel(task.category, color);
 			} catch (error) {
 				logger.error({ category: task.category, error }, "Failed to create label");
-				process.exit(1);
+				throw error;
+			}
+		}
+
+		// Create extra task labels, carry-over labels and the report label that are not categories themselves
+		const categories = new Set(schedule.tasks.map((task) => task.category));
+		const carryOverLabels = schedule.tasks.flatMap((task) => {
+			if (!task.carryOver || task.carryOver.policy === "drop") return [];
+			return [task.carryOver.policy === "escalate" ? "escalated" : task.carryOver.backlogLabel];
+		});
+		const overdueLabels = schedule.tasks.flatMap((task) =>
+			task.onDeadline?.action === "label-overdue" ? [task.onDeadline.overdueLabel] : []
+		);
+		const reportLabels = schedule.reports?.outputs.includes("issue") ? ["pm-report"] : [];
+		const extraLabels = [
+			...new Set([
+				...schedule.tasks.flatMap((task) => task.labels),
+				...carryOverLabels,
+				...overdueLabels,
+				...reportLabels,
+			]),
+		].filter((label) => !categories.has(label));
+
+		for (let i = 0; i < extraLabels.length; i++) {
+			const label = extraLabels[i]!;
+			const color = colors[(schedule.tasks.length + i) % colors.length]!;
+
+			try {
+				await this.tracker.createLabel(label, color);
+			} catch (error) {
+				logger.error({ label, error }, "Failed to create label");
+				throw error;
 			}
 		}
 
@@ -0,0 +1,129 @@
+import { deadlineHandler } from "@/core/deadlineHandler";
+import { bulkIssueCreator } from "@/utils/bulkIssueCreator";
+import { stateService } from "@/services";
+import { logger, clock } from "@/utils";
+import type { ScheduleConfig, TaskConfig } from "@/services";
+
+// Older missed days are not replayed one by one; they only get a warning
+const MAX_CATCH_UP_DAYS = 31;
+
+export class CatchUp {
+	private latest(a: string | null, b: string | null): string | null {
+		if (a === null) return b;
+		if (b === null) return a;
+		return a > b ? a : b;
+	}
+
+	/**
+	 * Runs the deadline of the task's last created day if it never ran,
+	 * as if the deadline job had fired on that day.
+	 */
+	private async processStaleIssue(task: TaskConfig, today: string): Promise<void> {
+		const item = stateService.getByCategory(task.category);
+		const lastCreated = item?.lastCreatedDate ?? null;
+		if (!item || lastCreated === null || lastCreated >= today) return;
+		if (item.deadlineProcessedDate !== null && item.deadlineProcessedDate >= lastCreated) return;
+
+		logger.info({ category: task.category, date: lastCreated }, "Processing deadline missed during downtime");
+		await clock.runAt(this.closingAt(task, lastCreated), () =>
+			deadlineHandler.processDeadlineForCategory(task.category, task.deadline, { onDeadline: task.onDeadline })
+		);
+	}
+
+	private closingAt(task: TaskConfig, date: string): Date {
+		return clock.at(date, deadlineHandler.closingTime(task.deadline, task.onDeadline));
+	}
+
+	// Days after the task's last recorded activity or caught-up day up to yesterday, oldest first
+	private missedDays(task: TaskConfig, today: string): string[] {
+		const item = stateService.getByCategory(task.category);
+		const since = this.latest(
+			this.latest(item?.lastCreatedDate ?? null, item?.deadlineProcessedDate ?? null),
+			item?.caughtUpDate ?? null
+		);
+		if (since === null) return [];
+
+		const days: string[] = [];
+		for (let date = clock.addDays(since, 1); date < today; date = clock.addDays(date, 1)) {
+			days.push(date);
+		}
+
+		if (days.length > MAX_CATCH_UP_DAYS) {
+			logger.warn(
+				{ category: task.category, missedDays: days.length, replayed: MAX_CATCH_UP_DAYS },
+				"Downtime too long to replay fully, older days are ignored"
+			);
+			return days.slice(-MAX_CATCH_UP_DAYS);
+		}
+
+		return days;
+	}
+
+	// Creates the day's issues at midnight, then runs each deadline at its time
+	private async backfillDay(schedule: ScheduleConfig, tasks: TaskConfig[], date: string, assignee?: string): Promise<void> {
+		const due = tasks.filter((task) => bulkIssueCreator.shouldCreateOn(task.recurrence, date));
+		if (due.length === 0) return;
+
+		logger.info({ date, categories: due.map((task) => task.category) }, "Backfilling issues for a missed day");
+		await clock.runAt(clock.at(date, "00:00"), () => bulkIssueCreator.createTodaysIssues(schedule, assignee, due));
+
+		const byClosingTime = [...due].sort((a, b) => this.closingAt(a, date).getTime() - this.closingAt(b, date).getTime());
+		for (const task of byClosingTime) {
+			await clock.runAt(this.closingAt(task, date), async () => {
+				try {
+					await deadlineHandler.processDeadlineForCategory(task.category, task.deadline, { onDeadline: task.onDeadline });
+				} catch (error) {
+					logger.error({ category: task.category, date, error }, "Failed to process backfilled deadline");
+				}
+				await bulkIssueCreator.createDependentIssues(schedule, assignee, due);
+			});
+		}
+	}
+
+	/**
+	 * Replays the days missed while pm-manager was down, oldest first, before today's work runs.
+	 * Every task's stale issue gets its missed deadline; what happens to the missed days themselves
+	 * depends on each task's `catchUp` policy.
+	 */
+	async run(schedule: ScheduleConfig, assignee?: string): Promise<void> {
+		const today = clock.today();
+
+		for (const task of schedule.tasks) {
+			try {
+				await this.processStaleIssue(task, today);
+			} catch (error) {
+				logger.error({ category: task.category, error }, "Failed to process stale issue, continuing with the rest");
+			}
+		}
+
+		// Tasks with the close policy leave their missed days alone
+		const replayed = schedule.tasks.filter((task) => task.catchUp !== "close");
+		const missed = new Map(replayed.map((task) => [task.category, this.missedDays(task, today)]));
+		const days = [...new Set([...missed.values()].flat())].sort();
+		if (days.length === 0) return;
+
+		logger.info({ from: days[0], to: days[days.length - 1] }, "Catching up on days missed during downtime");
+
+		for (const date of days) {
+			const tasks = replayed.filter((task) => missed.get(task.category)?.includes(date));
+
+			for (const task of tasks.filter((task) => task.catchUp === "skip")) {
+				if (bulkIssueCreator.shouldCreateOn(task.recurrence, date)) {
+					stateService.recordSkippedDay(task.category, date);
+					logger.info({ category: task.category, date }, "Missed day recorded as skipped");
+				}
+			}
+
+			await this.backfillDay(schedule, tasks.filter((task) => task.catchUp === "backfill"), date, assignee);
+
+			// Also covers days the recurrence skips, so a later restart does not walk them again
+			for (const task of tasks) {
+				stateService.markCaughtUp(task.category, date);
+			}
+		}
+
+		logger.info({ days: days.length }, "Catch-up complete");
+	}
+}
+
+export const catchUp = new CatchUp();
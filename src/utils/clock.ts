@@ -0,0 +1,155 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { workspaceContext } from "@/utils/workspaceContext";
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+interface ZonedParts {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Wall-clock view of "now" in the schedule's timezone.
+ * Every date (YYYY-MM-DD) and deadline computation goes through here
+ * so the host TZ never leaks into state or scheduling.
+ */
+export class Clock {
+	private timezone = "UTC";
+	private source: () => Date = () => new Date();
+	// Instant pinned by `runAt` for the code it runs
+	private pinned = new AsyncLocalStorage<Date>();
+
+	// Inside a workspace the timezone belongs to that workspace's schedule
+	setTimezone(timezone: string): void {
+		if (!isValidTimezone(timezone)) {
+			throw new Error(`Invalid IANA timezone: ${timezone}`);
+		}
+
+		const workspace = workspaceContext.current();
+		if (workspace) {
+			workspace.timezone = timezone;
+		} else {
+			this.timezone = timezone;
+		}
+	}
+
+	getTimezone(): string {
+		return workspaceContext.current()?.timezone ?? this.timezone;
+	}
+
+	// Replace the time source, e.g. with a fake clock for simulations
+	useSource(source: () => Date): void {
+		this.source = source;
+	}
+
+	// Runs `fn` with "now" pinned to `instant`, e.g. to replay a day missed during downtime
+	runAt<T>(instant: Date, fn: () => T): T {
+		return this.pinned.run(instant, fn);
+	}
+
+	now(): Date {
+		const pinned = this.pinned.getStore();
+		return pinned ? new Date(pinned) : this.source();
+	}
+
+	private zonedParts(instant: Date): ZonedParts {
+		const formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone: this.getTimezone(),
+			hourCycle: "h23",
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+			second: "2-digit",
+		});
+
+		const parts: Record<string, number> = {};
+		for (const part of formatter.formatToParts(instant)) {
+			if (part.type !== "literal") {
+				parts[part.type] = Number(part.value);
+			}
+		}
+
+		return {
+			year: parts.year!,
+			month: parts.month!,
+			day: parts.day!,
+			hour: parts.hour!,
+			minute: parts.minute!,
+			second: parts.second!,
+		};
+	}
+
+	// Milliseconds the zone is ahead of UTC at the given instant
+	private offsetAt(instant: Date): number {
+		const p = this.zonedParts(instant);
+		const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+		return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+	}
+
+	// YYYY-MM-DD for the given instant in the schedule's timezone
+	dateOf(instant: Date): string {
+		const p = this.zonedParts(instant);
+		return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+	}
+
+	today(): string {
+		return this.dateOf(this.now());
+	}
+
+	// Lowercase weekday name of a YYYY-MM-DD date
+	weekday(date: string): Weekday {
+		const [year, month, day] = date.split("-").map(Number);
+		return WEEKDAYS[new Date(Date.UTC(year!, month! - 1, day!)).getUTCDay()]!;
+	}
+
+	// ISO 8601 week number (weeks start on Monday; week 1 holds the year's first Thursday)
+	isoWeek(date: string): number {
+		const [year, month, day] = date.split("-").map(Number);
+		const target = new Date(Date.UTC(year!, month! - 1, day!));
+		// Move to the Thursday of the same week, which decides the week's year
+		target.setUTCDate(target.getUTCDate() + 3 - ((target.getUTCDay() + 6) % 7));
+		const yearStart = Date.UTC(target.getUTCFullYear(), 0, 1);
+		return Math.ceil(((target.getTime() - yearStart) / 86_400_000 + 1) / 7);
+	}
+
+	addDays(date: string, days: number): string {
+		const [year, month, day] = date.split("-").map(Number);
+		const shifted = new Date(Date.UTC(year!, month! - 1, day! + days));
+		return shifted.toISOString().split("T")[0]!;
+	}
+
+	// The instant at which the wall clock reads `time` (HH:MM) on `date`
+	at(date: string, time: string): Date {
+		const [year, month, day] = date.split("-").map(Number);
+		const [hours, minutes] = time.split(":").map(Number);
+		const wallAsUtc = Date.UTC(year!, month! - 1, day!, hours!, minutes!, 0, 0);
+
+		// Two passes settle the offset across DST transitions
+		let instant = new Date(wallAsUtc - this.offsetAt(new Date(wallAsUtc)));
+		instant = new Date(wallAsUtc - this.offsetAt(instant));
+		return instant;
+	}
+
+	format(instant: Date, options: Intl.DateTimeFormatOptions): string {
+		return instant.toLocaleString("en-US", { ...options, timeZone: this.getTimezone() });
+	}
+}
+
+export const clock = new Clock();
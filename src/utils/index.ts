@@ -1,3 +1,6 @@
 export * from "@/utils/logger";
+export * from "@/utils/clock";
 export * from "@/utils/startup";
 export * from "@/utils/scheduler";
+export * from "@/utils/workspaceContext";
+export * from "@/utils/workspaces";
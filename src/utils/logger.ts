@@ -1,5 +1,6 @@
 import pino from "pino";
 import { config } from "@/config";
+import { workspaceContext } from "@/utils/workspaceContext";
 
 // Create logger — only logs to console
 const destination = config.isDev
@@ -17,6 +18,11 @@ const destination = config.isDev
 export const logger = pino(
 	{
 		level: config.LOG_LEVEL || "info",
+		// Tag every line logged inside a workspace with its name
+		mixin: () => {
+			const workspace = workspaceContext.current();
+			return workspace ? { workspace: workspace.name } : {};
+		},
 	},
 	destination
 );
@@ -0,0 +1,129 @@
+import { clock } from "@/utils/clock";
+import type { RecurrenceConfig } from "@/services";
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Whole days from `from` to `to` (both YYYY-MM-DD)
+function daysBetween(from: string, to: string): number {
+	return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+function dateParts(date: string): { year: number; month: number; day: number } {
+	const [year, month, day] = date.split("-").map(Number);
+	return { year: year!, month: month!, day: day! };
+}
+
+// 0 = Sunday ... 6 = Saturday
+function weekdayIndex(date: string): number {
+	return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+	return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Values a single cron field allows, or null for a wildcard.
+ * Supports lists, ranges, steps and month/day names.
+ */
+function parseCronField(field: string, min: number, max: number, names: string[] = []): Set<number> | null {
+	if (field === "*") return null;
+
+	const toNumber = (value: string) => {
+		const index = names.indexOf(value.toLowerCase());
+		if (index !== -1) return index + (names === MONTH_NAMES ? 1 : 0);
+		return Number(value);
+	};
+
+	const values = new Set<number>();
+
+	for (const part of field.split(",")) {
+		const [range, stepText] = part.split("/");
+		const step = stepText ? Number(stepText) : 1;
+
+		let start = min;
+		let end = max;
+		if (range !== "*") {
+			const [from, to] = range!.split("-");
+			start = toNumber(from!);
+			end = to !== undefined ? toNumber(to) : stepText ? max : start;
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return values;
+}
+
+function matchesCron(expression: string, date: string): boolean {
+	const fields = expression.trim().split(/\s+/);
+	// Six fields means a leading seconds field
+	const [dom, month, dow] = fields.length === 6 ? fields.slice(3) : fields.slice(2);
+
+	const { month: monthNumber, day } = dateParts(date);
+	const weekday = weekdayIndex(date);
+
+	const months = parseCronField(month!, 1, 12, MONTH_NAMES);
+	if (months && !months.has(monthNumber)) return false;
+
+	const daysOfMonth = parseCronField(dom!, 1, 31);
+	const daysOfWeek = parseCronField(dow!, 0, 7, DAY_NAMES);
+	const domMatch = daysOfMonth === null || daysOfMonth.has(day);
+	const dowMatch = daysOfWeek === null || daysOfWeek.has(weekday) || (weekday === 0 && daysOfWeek.has(7));
+
+	// Like cron: when both day fields are restricted, either may match
+	if (daysOfMonth !== null && daysOfWeek !== null) return domMatch || dowMatch;
+	return domMatch && dowMatch;
+}
+
+function matchesMonthly(monthly: NonNullable<RecurrenceConfig["monthly"]>, date: string): boolean {
+	const { year, month, day } = dateParts(date);
+	const lastDay = daysInMonth(year, month);
+
+	if ("day" in monthly) {
+		return monthly.day === "last" ? day === lastDay : day === monthly.day;
+	}
+
+	if (clock.weekday(date) !== monthly.weekday) return false;
+	if (monthly.nth === "last") return day + 7 > lastDay;
+	return Math.ceil(day / 7) === monthly.nth;
+}
+
+function matchesEvery(every: NonNullable<RecurrenceConfig["every"]>, date: string, hasDays: boolean): boolean {
+	if (every.unit === "days") {
+		const diff = daysBetween(every.anchor, date);
+		return diff >= 0 && diff % every.interval === 0;
+	}
+
+	// Weeks are counted from the Monday of the anchor's week
+	const anchorMonday = clock.addDays(every.anchor, -((weekdayIndex(every.anchor) + 6) % 7));
+	const diff = daysBetween(anchorMonday, date);
+	if (diff < 0 || Math.floor(diff / 7) % every.interval !== 0) return false;
+
+	// Without explicit days, repeat on the anchor's weekday
+	return hasDays || weekdayIndex(date) === weekdayIndex(every.anchor);
+}
+
+/**
+ * Whether a task with this recurrence runs on `date` (YYYY-MM-DD).
+ * Every configured rule must match; start/end bound the range and exceptDates are skipped.
+ */
+export function matchesRecurrence(recurrence: RecurrenceConfig, date: string): boolean {
+	if (recurrence.start && date < recurrence.start) return false;
+	if (recurrence.end && date > recurrence.end) return false;
+	if (recurrence.exceptDates.includes(date)) return false;
+
+	if (recurrence.days && !recurrence.days.includes("daily") && !recurrence.days.includes(clock.weekday(date))) {
+		return false;
+	}
+
+	if (recurrence.every && !matchesEvery(recurrence.every, date, recurrence.days !== undefined)) return false;
+
+	if (recurrence.monthly && !matchesMonthly(recurrence.monthly, date)) return false;
+	if (recurrence.cron && !matchesCron(recurrence.cron, date)) return false;
+
+	return true;
+}
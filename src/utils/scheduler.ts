@@ -1,13 +1,34 @@
 import * as cron from "node-cron";
 import schedule from "node-schedule";
 import { deadlineHandler } from "@/core/deadlineHandler";
+import { reminderNotifier } from "@/core/reminderNotifier";
+import { reportGenerator } from "@/core/reportGenerator";
+import { boardSync } from "@/core/boardSync";
 import { bulkIssueCreator } from "@/utils/bulkIssueCreator";
-import { logger } from "@/utils";
-import type { ScheduleConfig } from "@/services";
+import { catchUp } from "@/utils/catchUp";
+import { logger, clock } from "@/utils";
+import { diffSchedules, githubService } from "@/services";
+import type { CircuitBreaker, ScheduleConfig, TaskConfig } from "@/services";
+import { workspaceContext } from "@/utils/workspaceContext";
+
+// How often tasks waiting on a prerequisite are re-checked
+const DEPENDENCY_POLL_CRON = "*/5 * * * *";
+// How often open issues are checked for their first ticked todo
+const PROGRESS_POLL_CRON = "*/5 * * * *";
 
 export class Scheduler {
-	private deadlineJobs: schedule.Job[] = [];
+	// Deadline job plus any reminder jobs, per category
+	private deadlineJobs = new Map<string, schedule.Job[]>();
 	private midnightJob: cron.ScheduledTask | null = null;
+	private dependencyJob: cron.ScheduledTask | null = null;
+	private progressJob: cron.ScheduledTask | null = null;
+	private scheduleConfig: ScheduleConfig | null = null;
+	private assignee: string | undefined;
+	private paused = false;
+	private lastReportDate: string | null = null;
+	private resumeTimer: NodeJS.Timeout | null = null;
+	private circuitBreaker: CircuitBreaker | null = null;
+	private readonly onCircuitOpen = (resumeAt: Date) => this.pause(resumeAt);
 
 	private parseDeadlineTime(deadline: string): { hour: number; minute: number } {
 		const parts = deadline.split(":").map(Number);
@@ -16,74 +37,313 @@ export class Scheduler {
 		return { hour, minute };
 	}
 
+	private dailyRule(hour: number, minute: number): schedule.RecurrenceRule {
+		const rule = new schedule.RecurrenceRule();
+		rule.hour = hour;
+		rule.minute = minute;
+		rule.second = 0;
+		rule.tz = clock.getTimezone();
+		return rule;
+	}
+
+	private scheduleDeadlineCheck(task: TaskConfig): void {
+		const { hour, minute } = this.parseDeadlineTime(task.deadline);
+		const closing = this.parseDeadlineTime(deadlineHandler.closingTime(task.deadline, task.onDeadline));
+
+		// Schedule exact time for this category's deadline, after its grace period
+		const job = schedule.scheduleJob(this.dailyRule(closing.hour, closing.minute), workspaceContext.bind(async () => {
+			if (this.paused) {
+				logger.warn({ category: task.category }, "Scheduler paused, deadline will be processed on resume");
+				return;
+			}
+
+			logger.info({ category: task.category, deadline: task.deadline }, "Deadline check triggered");
+
+			try {
+				await deadlineHandler.processDeadlineForCategory(task.category, task.deadline, { onDeadline: task.onDeadline });
+			} catch (error) {
+				logger.error({ category: task.category, error }, "Deadline processing failed");
+			}
+
+			// A closed prerequisite may unblock dependent tasks right away
+			await this.createDependentIssues();
+			await this.reportIfDayComplete();
+		}));
+
+		const jobs = [job];
+
+		for (const offset of task.reminders) {
+			const reminderMinute = hour * 60 + minute - reminderNotifier.parseOffsetMinutes(offset);
+
+			// Issues are created at midnight, so a reminder before then has nothing to remind about
+			if (reminderMinute < 0) {
+				logger.warn({ category: task.category, offset }, "Reminder falls before midnight, skipping");
+				continue;
+			}
+
+			const reminderJob = schedule.scheduleJob(
+				this.dailyRule(Math.floor(reminderMinute / 60), reminderMinute % 60),
+				workspaceContext.bind(async () => {
+					if (this.paused) return;
+
+					try {
+						await reminderNotifier.sendReminders(task.category, task.deadline, offset);
+					} catch (error) {
+						logger.error({ category: task.category, offset, error }, "Reminder failed");
+					}
+				})
+			);
+
+			jobs.push(reminderJob);
+		}
+
+		this.deadlineJobs.set(task.category, jobs);
+
+		logger.info(
+			{ category: task.category, time: task.deadline, reminders: jobs.length - 1 },
+			"Deadline check scheduled"
+		);
+	}
+
+	// Publishes the day's reports once the last of its deadlines has been processed
+	private async reportIfDayComplete(): Promise<void> {
+		const config = this.scheduleConfig;
+		const today = clock.today();
+
+		if (!config?.reports || this.lastReportDate === today) return;
+
+		const categories = config.tasks.map((task) => task.category);
+		if (!deadlineHandler.allDeadlinesProcessed(categories, today)) return;
+
+		this.lastReportDate = today;
+
+		try {
+			await reportGenerator.generate(config, today);
+		} catch (error) {
+			logger.error({ error }, "Report generation failed");
+		}
+	}
+
+	private async createDependentIssues(): Promise<void> {
+		if (!this.scheduleConfig || this.paused) return;
+
+		try {
+			await bulkIssueCreator.createDependentIssues(this.scheduleConfig, this.assignee);
+		} catch (error) {
+			logger.error({ error }, "Dependent issue creation failed");
+		}
+	}
+
+	private async markStartedIssues(): Promise<void> {
+		if (!this.scheduleConfig || this.paused) return;
+
+		try {
+			await boardSync.markStartedIssues(this.scheduleConfig.tasks.map((task) => task.category));
+		} catch (error) {
+			logger.error({ error }, "Board progress update failed");
+		}
+	}
+
+	private cancelDeadlineCheck(category: string): void {
+		const jobs = this.deadlineJobs.get(category);
+		if (!jobs) return;
+
+		for (const job of jobs) {
+			job.cancel();
+		}
+		this.deadlineJobs.delete(category);
+
+		logger.info({ category }, "Deadline check cancelled");
+	}
+
 	scheduleDeadlineChecks(scheduleConfig: ScheduleConfig): void {
 		logger.info("Scheduling deadline checks");
 
 		for (const task of scheduleConfig.tasks) {
-			const { hour, minute } = this.parseDeadlineTime(task.deadline);
+			this.scheduleDeadlineCheck(task);
+		}
+	}
+
+	scheduleMidnightIssueCreation(): void {
+		logger.info("Scheduling midnight issue creation");
+
+		// Run at 00:00 every day in the schedule's timezone
+		this.midnightJob = cron.schedule(
+			"0 0 * * *",
+			workspaceContext.bind(async () => {
+				logger.info("Midnight job triggered - creating today's issues");
 
-			// Schedule exact time for this category's deadline
-			const rule = new schedule.RecurrenceRule();
-			rule.hour = hour;
-			rule.minute = minute;
-			rule.second = 0;
+				// Read the current config so reloaded schedules take effect
+				if (!this.scheduleConfig) return;
 
-			const job = schedule.scheduleJob(rule, async () => {
-				logger.info({ category: task.category, deadline: task.deadline }, "Deadline check triggered");
+				if (this.paused) {
+					logger.warn("Scheduler paused, issues will be created on resume");
+					return;
+				}
 
 				try {
-					await deadlineHandler.processDeadlineForCategory(task.category, task.deadline);
+					await bulkIssueCreator.createTodaysIssues(this.scheduleConfig, this.assignee);
 				} catch (error) {
-					logger.error({ category: task.category, error }, "Deadline processing failed");
+					logger.error({ error }, "Midnight issue creation failed");
 				}
-			});
-
-			this.deadlineJobs.push(job);
+			}),
+			{ timezone: clock.getTimezone() }
+		);
 
-			logger.info({ category: task.category, time: task.deadline }, "Deadline check scheduled");
-		}
+		logger.info({ timezone: clock.getTimezone() }, "Midnight job scheduled");
 	}
 
-	scheduleMidnightIssueCreation(scheduleConfig: ScheduleConfig, assignee?: string): void {
-		logger.info("Scheduling midnight issue creation");
+	// Prerequisites closed by hand are noticed on the next poll
+	scheduleDependencyPolling(): void {
+		this.dependencyJob = cron.schedule(DEPENDENCY_POLL_CRON, workspaceContext.bind(() => this.createDependentIssues()), {
+			timezone: clock.getTimezone(),
+		});
 
-		// Run at 00:00 every day
-		this.midnightJob = cron.schedule("0 0 * * *", async () => {
-			logger.info("Midnight job triggered - creating today's issues");
+		logger.info({ cron: DEPENDENCY_POLL_CRON }, "Dependency polling scheduled");
+	}
 
-			try {
-				await bulkIssueCreator.createTodaysIssues(scheduleConfig, assignee);
-			} catch (error) {
-				logger.error({ error }, "Midnight issue creation failed");
-			}
+	// There is no event for a ticked checkbox, so the board's Status follows on the next poll
+	scheduleProgressPolling(): void {
+		this.progressJob = cron.schedule(PROGRESS_POLL_CRON, workspaceContext.bind(() => this.markStartedIssues()), {
+			timezone: clock.getTimezone(),
 		});
 
-		logger.info("Midnight job scheduled");
+		logger.info({ cron: PROGRESS_POLL_CRON }, "Board progress polling scheduled");
 	}
 
 	start(scheduleConfig: ScheduleConfig, assignee?: string): void {
 		logger.info("Starting scheduler");
 
+		this.scheduleConfig = scheduleConfig;
+		this.assignee = assignee;
+
 		this.scheduleDeadlineChecks(scheduleConfig);
-		this.scheduleMidnightIssueCreation(scheduleConfig, assignee);
+		this.scheduleMidnightIssueCreation();
+		this.scheduleDependencyPolling();
+		this.scheduleProgressPolling();
+
+		// Pause instead of failing every job while GitHub is unavailable or rate limited
+		this.circuitBreaker = (workspaceContext.current()?.github ?? githubService).circuitBreaker;
+		this.circuitBreaker.on("open", this.onCircuitOpen);
 
 		logger.info(
 			{
-				deadlineJobs: this.deadlineJobs.length,
+				deadlineJobs: this.deadlineJobs.size,
 				midnightJob: this.midnightJob ? "scheduled" : "not scheduled",
 			},
 			"Scheduler started"
 		);
 	}
 
+	pause(resumeAt: Date): void {
+		this.paused = true;
+
+		if (this.resumeTimer) clearTimeout(this.resumeTimer);
+		this.resumeTimer = setTimeout(() => void this.resume(), Math.max(0, resumeAt.getTime() - Date.now()));
+
+		logger.warn({ resumeAt: resumeAt.toISOString() }, "Scheduler paused");
+	}
+
+	/**
+	 * Resumes after a pause and catches up on whatever was skipped.
+	 * Both steps are idempotent per day, so work done before the pause is not repeated.
+	 */
+	async resume(): Promise<void> {
+		this.paused = false;
+		this.resumeTimer = null;
+
+		if (!this.scheduleConfig) return;
+
+		logger.info("Scheduler resumed, catching up on missed work");
+
+		try {
+			// A long pause can span midnight
+			await catchUp.run(this.scheduleConfig, this.assignee);
+			await deadlineHandler.processAllDeadlines(
+				this.scheduleConfig.tasks.map((task) => ({
+					category: task.category,
+					deadline: task.deadline,
+					onDeadline: task.onDeadline,
+				}))
+			);
+			await bulkIssueCreator.createTodaysIssues(this.scheduleConfig, this.assignee);
+		} catch (error) {
+			logger.error({ error }, "Catch-up after resume failed");
+		}
+
+		await this.reportIfDayComplete();
+	}
+
+	/**
+	 * Applies a new schedule to the running scheduler.
+	 * Only deadline jobs of added, removed or re-timed tasks are touched;
+	 * a timezone change reschedules everything. Workspace settings are fixed until a restart.
+	 */
+	reload(next: ScheduleConfig): void {
+		const previous = this.scheduleConfig;
+		if (!previous) {
+			logger.warn("Scheduler not started, ignoring reload");
+			return;
+		}
+
+		const workspaceChanges = (["name", "repo", "tokenEnv", "board", "stateNamespace"] as const).filter(
+			(field) => JSON.stringify(previous.workspace?.[field]) !== JSON.stringify(next.workspace?.[field])
+		);
+		if (workspaceChanges.length > 0) {
+			logger.warn({ fields: workspaceChanges }, "Workspace settings changed; restart pm-manager to apply them");
+		}
+
+		if (previous.timezone !== next.timezone) {
+			logger.info({ from: previous.timezone, to: next.timezone }, "Timezone changed, rescheduling all jobs");
+			const assignee = this.assignee;
+			this.stop();
+			clock.setTimezone(next.timezone);
+			this.start(next, assignee);
+			return;
+		}
+
+		const diff = diffSchedules(previous, next);
+
+		for (const task of diff.removed) {
+			this.cancelDeadlineCheck(task.category);
+		}
+
+		for (const task of diff.added) {
+			this.scheduleDeadlineCheck(task);
+		}
+
+		for (const { previous: before, next: after } of diff.changed) {
+			if (
+				before.deadline !== after.deadline ||
+				before.reminders.join() !== after.reminders.join() ||
+				JSON.stringify(before.onDeadline) !== JSON.stringify(after.onDeadline)
+			) {
+				this.cancelDeadlineCheck(after.category);
+				this.scheduleDeadlineCheck(after);
+			}
+		}
+
+		this.scheduleConfig = next;
+
+		logger.info(
+			{
+				added: diff.added.map((task) => task.category),
+				removed: diff.removed.map((task) => task.category),
+				changed: diff.changed.map(({ next: task }) => task.category),
+				deadlineJobs: this.deadlineJobs.size,
+			},
+			"Scheduler reloaded"
+		);
+	}
+
 	stop(): void {
 		logger.info("Stopping scheduler");
 
 		// Cancel all deadline jobs
-		for (const job of this.deadlineJobs) {
+		for (const job of [...this.deadlineJobs.values()].flat()) {
 			job.cancel();
 		}
-		this.deadlineJobs = [];
+		this.deadlineJobs.clear();
 
 		// Stop midnight job
 		if (this.midnightJob) {
@@ -91,8 +351,28 @@ export class Scheduler {
 			this.midnightJob = null;
 		}
 
+		this.dependencyJob?.stop();
+		this.dependencyJob = null;
+		this.progressJob?.stop();
+		this.progressJob = null;
+
+		this.circuitBreaker?.off("open", this.onCircuitOpen);
+		this.circuitBreaker = null;
+		if (this.resumeTimer) {
+			clearTimeout(this.resumeTimer);
+			this.resumeTimer = null;
+		}
+		this.paused = false;
+
+		this.scheduleConfig = null;
+
 		logger.info("Scheduler stopped");
 	}
 }
 
 export const scheduler = new Scheduler();
+
+// The current workspace's scheduler, or the process-wide one outside a workspace
+export function getScheduler(): Scheduler {
+	return workspaceContext.current()?.scheduler ?? scheduler;
+}
@@ -0,0 +1,244 @@
+import fs from "fs";
+import yaml from "js-yaml";
+import { z, prettifyError } from "zod";
+import { InMemoryIssueTracker, useIssueTracker, stateService } from "@/services";
+import type { CreateIssueInput, ScheduleConfig, TaskConfig } from "@/services";
+import { todoMigrator } from "@/core/todoMigrator";
+import { CHECKBOX_PATTERN } from "@/core/checklistParser";
+import { deadlineHandler } from "@/core/deadlineHandler";
+import { bulkIssueCreator } from "@/utils/bulkIssueCreator";
+import { logger, clock, startup } from "@/utils";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// What to tick before a deadline: every checkbox, none, or the listed todo texts
+const TickSchema = z.union([z.literal("all"), z.literal("none"), z.array(z.string())]);
+
+const SimulationScriptSchema = z.object({
+	default: TickSchema.default("none"),
+	days: z.record(z.string().regex(DATE_REGEX, "Expected YYYY-MM-DD"), z.record(z.string(), TickSchema)).default({}),
+});
+
+export type SimulationScript = z.infer<typeof SimulationScriptSchema>;
+type Tick = z.infer<typeof TickSchema>;
+
+export type TimelineEventType = "created" | "closed" | "incomplete" | "migrated" | "overdue" | "reassigned";
+
+export interface TimelineEvent {
+	date: string;
+	time: string;
+	type: TimelineEventType;
+	issueNumber: number;
+	category: string;
+	detail: string;
+}
+
+export function loadSimulationScript(scriptPath: string): SimulationScript {
+	const contents = fs.readFileSync(scriptPath, "utf8");
+	// CORE_SCHEMA keeps YYYY-MM-DD keys as strings instead of Dates
+	const result = SimulationScriptSchema.safeParse(yaml.load(contents, { schema: yaml.CORE_SCHEMA }) ?? {});
+
+	if (!result.success) {
+		throw new Error(`Invalid simulation script ${scriptPath}:\n${prettifyError(result.error)}`);
+	}
+
+	return result.data;
+}
+
+/**
+ * In-memory tracker that also records what happened to each issue.
+ */
+class RecordingIssueTracker extends InMemoryIssueTracker {
+	readonly events: TimelineEvent[] = [];
+
+	constructor(
+		private categories: Set<string>,
+		private overdueLabels: Set<string>
+	) {
+		super({ user: "simulator", logPrefix: "[simulate]" });
+	}
+
+	private categoryOf(labels: string[]): string {
+		return labels.find((label) => this.categories.has(label)) ?? "-";
+	}
+
+	private record(type: TimelineEventType, issueNumber: number, labels: string[], detail: string): void {
+		const now = clock.now();
+		this.events.push({
+			date: clock.dateOf(now),
+			time: clock.format(now, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" }),
+			type,
+			issueNumber,
+			category: this.categoryOf(labels),
+			detail,
+		});
+	}
+
+	override async createIssue(params: CreateIssueInput): Promise<number> {
+		const issueNumber = await super.createIssue(params);
+		this.record("created", issueNumber, params.labels, params.title);
+		return issueNumber;
+	}
+
+	override async closeIssue(issueNumber: number): Promise<void> {
+		await super.closeIssue(issueNumber);
+		const issue = this.getIssue(issueNumber)!;
+		this.record("closed", issueNumber, issue.labels, "");
+	}
+
+	override async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+		await super.addLabels(issueNumber, labels);
+
+		if (labels.includes("incomplete")) {
+			const issue = this.getIssue(issueNumber)!;
+			const unchecked = await this.openTodos(issueNumber);
+			this.record("incomplete", issueNumber, issue.labels, `${unchecked.length} unchecked`);
+		}
+
+		if (labels.some((label) => this.overdueLabels.has(label))) {
+			const issue = this.getIssue(issueNumber)!;
+			const unchecked = await this.openTodos(issueNumber);
+			this.record("overdue", issueNumber, issue.labels, `${unchecked.length} unchecked`);
+		}
+	}
+
+	override async setAssignees(issueNumber: number, assignees: string[]): Promise<void> {
+		await super.setAssignees(issueNumber, assignees);
+		this.record("reassigned", issueNumber, this.getIssue(issueNumber)!.labels, assignees.join(", "));
+	}
+
+	override async removeLabel(issueNumber: number, label: string): Promise<void> {
+		// Removing "incomplete" is the last step of migrating the issue's todos forward;
+		// open sub-issues have moved to the new parent by then and are recorded as they move
+		if (label === "incomplete") {
+			const issue = this.getIssue(issueNumber)!;
+			const todos = await this.openTodos(issueNumber);
+			if (todos.length > 0) {
+				this.record("migrated", issueNumber, issue.labels, todos.join("; "));
+			}
+		}
+
+		await super.removeLabel(issueNumber, label);
+	}
+
+	override async addSubIssue(parentNumber: number, childNumber: number, options: { replaceParent?: boolean } = {}): Promise<void> {
+		const previousParent = options.replaceParent ? this.parentOf(childNumber) : null;
+		await super.addSubIssue(parentNumber, childNumber, options);
+
+		if (previousParent !== null && previousParent !== parentNumber) {
+			const previous = this.getIssue(previousParent)!;
+			this.record("migrated", previousParent, previous.labels, this.getIssue(childNumber)!.title);
+		}
+	}
+
+	// Open sub-issue titles, or the unchecked todos of the body
+	private async openTodos(issueNumber: number): Promise<string[]> {
+		const subIssues = await this.getSubIssues(issueNumber);
+		if (subIssues.length > 0) {
+			return subIssues.filter((subIssue) => subIssue.state === "open").map((subIssue) => subIssue.title);
+		}
+		return todoMigrator.parseUncheckedTodos(this.getIssue(issueNumber)!.body);
+	}
+
+	// Tick checkboxes and close sub-issues the way a user would on GitHub, without logging a mutation
+	async tick(issueNumber: number, tick: Tick): Promise<void> {
+		const issue = this.getIssue(issueNumber);
+		if (!issue || tick === "none") return;
+
+		for (const subIssue of await this.getSubIssues(issueNumber)) {
+			if (tick === "all" || tick.includes(subIssue.title)) {
+				this.getIssue(subIssue.number)!.state = "closed";
+			}
+		}
+
+		issue.body = issue.body
+			.split("\n")
+			.map((line) => {
+				const match = line.match(CHECKBOX_PATTERN);
+				if (!match || match[2]!.trim() !== "") return line;
+				// Carried todos end in their carry hint and metadata, which the script does not repeat
+				if (tick !== "all" && !tick.includes(todoMigrator.splitMetadata(match[3]!).text)) return line;
+				return line.replace(/\[\s*\]/, "[x]");
+			})
+			.join("\n");
+	}
+}
+
+/**
+ * Replays a date range through the real BulkIssueCreator, DeadlineHandler and TodoMigrator
+ * against a fake clock, an in-memory tracker and in-memory state.
+ */
+export class Simulator {
+	async run(schedule: ScheduleConfig, from: string, to: string, script: SimulationScript): Promise<TimelineEvent[]> {
+		if (from > to) {
+			throw new Error(`--from (${from}) must not be after --to (${to})`);
+		}
+
+		let now = clock.at(from, "00:00");
+		clock.useSource(() => now);
+
+		const overdueLabels = schedule.tasks.flatMap((task) =>
+			task.onDeadline?.action === "label-overdue" ? [task.onDeadline.overdueLabel] : []
+		);
+		const tracker = new RecordingIssueTracker(new Set(schedule.tasks.map((task) => task.category)), new Set(overdueLabels));
+		useIssueTracker(tracker);
+
+		stateService.detach();
+		stateService.save([]);
+		await startup.initializeState(schedule);
+		await bulkIssueCreator.ensureLabelsExist(schedule);
+
+		const closingTime = (task: TaskConfig) => deadlineHandler.closingTime(task.deadline, task.onDeadline);
+		const tasksByDeadline = [...schedule.tasks].sort((a, b) => closingTime(a).localeCompare(closingTime(b)));
+
+		for (let date = from; date <= to; date = clock.addDays(date, 1)) {
+			logger.debug({ date }, "Simulating day");
+
+			now = clock.at(date, "00:00");
+			await bulkIssueCreator.createTodaysIssues(schedule, "simulator");
+
+			for (const task of tasksByDeadline) {
+				const deadline = clock.at(date, closingTime(task));
+
+				// Apply the scripted ticks just before the deadline fires
+				now = new Date(deadline.getTime() - 60_000);
+				const tick = script.days[date]?.[task.category] ?? script.default;
+				for (const issue of await tracker.getIssuesByLabels([task.category], "open")) {
+					await tracker.tick(issue.number, tick);
+				}
+
+				now = deadline;
+				await deadlineHandler.processDeadlineForCategory(task.category, task.deadline, { onDeadline: task.onDeadline });
+				await bulkIssueCreator.createDependentIssues(schedule, "simulator");
+			}
+		}
+
+		return tracker.events;
+	}
+
+	formatTimeline(events: TimelineEvent[]): string {
+		const lines: string[] = [];
+		let currentDate: string | null = null;
+
+		for (const event of events) {
+			if (event.date !== currentDate) {
+				currentDate = event.date;
+				lines.push("", `${event.date} (${clock.weekday(event.date)})`);
+			}
+
+			const detail = event.detail ? `  ${event.detail}` : "";
+			lines.push(`  ${event.time}  ${event.type.padEnd(10)} #${event.issueNumber} ${event.category}${detail}`);
+		}
+
+		const count = (type: TimelineEventType) => events.filter((event) => event.type === type).length;
+		lines.push(
+			"",
+			`Created: ${count("created")}  Closed: ${count("closed")}  Incomplete: ${count("incomplete")}  ` +
+				`Migrated: ${count("migrated")}  Overdue: ${count("overdue")}  Reassigned: ${count("reassigned")}`
+		);
+
+		return lines.join("\n");
+	}
+}
+
+export const simulator = new Simulator();
@@ -1,10 +1,15 @@
-import { loadSchedule, stateService, githubService } from "@/services";
+import { loadSchedule, watchSchedule, stateService, getIssueTracker, describeBoard } from "@/services";
 import { bulkIssueCreator } from "@/utils/bulkIssueCreator";
+import { catchUp } from "@/utils/catchUp";
 import { deadlineHandler } from "@/core/deadlineHandler";
-import { logger } from "@/utils";
-import type { ScheduleConfig } from "@/services";
+import { logger, clock, getScheduler, workspaceContext } from "@/utils";
+import type { BoardRef, ScheduleConfig, IssueTracker } from "@/services";
 
 export class Startup {
+	private get tracker(): IssueTracker {
+		return getIssueTracker();
+	}
+
 	async initializeState(schedule: ScheduleConfig): Promise<void> {
 		logger.info("Initializing local state");
 
@@ -17,6 +22,10 @@ export class Startup {
 				deadline: task.deadline,
 				lastCreatedDate: null,
 				deadlineProcessedDate: null,
+				caughtUpDate: null,
+				history: [],
+				issues: [],
+				skipped: [],
 			}));
 
 			stateService.save(initialState);
@@ -26,30 +35,47 @@ export class Startup {
 			const stateCategories = new Set(existingState.map((s) => s.category));
 			const newTasks = schedule.tasks.filter((task) => !stateCategories.has(task.category));
 
-			if (newTasks.length > 0) {
+			// Keep stored deadlines in line with edited tasks
+			let deadlinesChanged = false;
+			for (const item of existingState) {
+				const task = schedule.tasks.find((t) => t.category === item.category);
+				if (task && task.deadline !== item.deadline) {
+					item.deadline = task.deadline;
+					deadlinesChanged = true;
+				}
+			}
+
+			if (newTasks.length > 0 || deadlinesChanged) {
 				for (const task of newTasks) {
 					existingState.push({
 						category: task.category,
 						deadline: task.deadline,
 						lastCreatedDate: null,
 						deadlineProcessedDate: null,
+						caughtUpDate: null,
+						history: [],
+						issues: [],
+						skipped: [],
 					});
 				}
 				stateService.save(existingState);
-				logger.info({ newTaskCount: newTasks.length }, "State synced with new tasks");
+				logger.info({ newTaskCount: newTasks.length, deadlinesChanged }, "State synced with schedule");
 			} else {
 				logger.info("State already initialized");
 			}
 		}
 	}
 
-	async ensureKanbanBoard(boardName: string): Promise<void> {
-		logger.info({ boardName }, "Ensuring Kanban board exists");
+	async ensureKanbanBoard(board: BoardRef): Promise<void> {
+		logger.info({ board: describeBoard(board) }, "Ensuring Kanban board exists");
 
-		if (await githubService.kanbanBoardExists(boardName)) {
+		if (await this.tracker.kanbanBoardExists(board)) {
 			logger.info("Kanban board already exists");
+		} else if (board.number !== undefined || board.id !== undefined) {
+			// A board picked by number or ID is never replaced with a new one
+			throw new Error(`Board ${describeBoard(board)} not found; check workspace.board`);
 		} else {
-			await githubService.createKanbanBoard(boardName);
+			await this.tracker.createKanbanBoard(board);
 			logger.info("Kanban board created");
 		}
 	}
@@ -70,37 +96,63 @@ export class Startup {
 		const categories = schedule.tasks.map((task) => ({
 			category: task.category,
 			deadline: task.deadline,
+			onDeadline: task.onDeadline,
 		}));
 
 		await deadlineHandler.processAllDeadlines(categories);
 	}
 
+	async applyReloadedSchedule(schedule: ScheduleConfig): Promise<void> {
+		logger.info({ taskCount: schedule.tasks.length }, "Applying reloaded schedule");
+
+		// Sync new categories and labels before jobs can fire for them
+		await this.initializeState(schedule);
+		await this.ensureLabels(schedule);
+
+		getScheduler().reload(schedule);
+	}
+
+	watchSchedule(): () => void {
+		return watchSchedule((schedule) => this.applyReloadedSchedule(schedule));
+	}
+
 	async run(): Promise<ScheduleConfig> {
 		logger.info("Starting application startup sequence");
 
 		// Load schedule
 		const schedule = loadSchedule();
 		if (!schedule) {
-			logger.error("Failed to load schedule");
-			process.exit(1);
+			throw new Error("Failed to load schedule");
 		}
 
-		logger.info({ taskCount: schedule.tasks.length }, "Schedule loaded");
+		clock.setTimezone(schedule.timezone);
+		logger.info({ taskCount: schedule.tasks.length, timezone: schedule.timezone, today: clock.today() }, "Schedule loaded");
+
+		// A damaged state file must not be mistaken for a first run
+		try {
+			stateService.load();
+		} catch (error) {
+			logger.error((error as Error).message);
+			throw error;
+		}
 
 		try {
 			// Get authenticated user for assignee
-			const username = await githubService.getAuthenticatedUser();
+			const username = await this.tracker.getAuthenticatedUser();
 			logger.info({ username }, "Authenticated with GitHub");
 
 			// Initialize state
 			await this.initializeState(schedule);
 
 			// Ensure Kanban board exists
-			await this.ensureKanbanBoard("Task Manager");
+			await this.ensureKanbanBoard(workspaceContext.current()?.board ?? { title: "Task Manager" });
 
 			// Ensure labels exist
 			await this.ensureLabels(schedule);
 
+			// Replay days missed while the app was down
+			await catchUp.run(schedule, username);
+
 			// Process missed deadlines first
 			await this.processMissedDeadlines(schedule);
 
@@ -112,7 +164,7 @@ export class Startup {
 			return schedule;
 		} catch (error) {
 			logger.error({ error }, "Startup sequence failed");
-			process.exit(1);
+			throw error;
 		}
 	}
 }
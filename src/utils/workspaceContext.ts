@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { BoardRef, GitHubService, IssueTracker } from "@/services";
+import type { Scheduler } from "@/utils/scheduler";
+
+/**
+ * Everything that differs between workspaces (one per schedule file).
+ * Code running inside `workspaceContext.run` sees its workspace's tracker, state,
+ * timezone and scheduler through the usual getters.
+ */
+export interface WorkspaceContext {
+	name: string;
+	schedulePath: string;
+	board: BoardRef;
+	// Subdirectory of data/ for this workspace's state; "" uses data/ itself
+	stateNamespace: string;
+	github: GitHubService;
+	tracker: IssueTracker;
+	scheduler: Scheduler;
+	timezone: string | null;
+}
+
+class WorkspaceContextStore {
+	private storage = new AsyncLocalStorage<WorkspaceContext>();
+
+	run<T>(context: WorkspaceContext, fn: () => T): T {
+		return this.storage.run(context, fn);
+	}
+
+	current(): WorkspaceContext | undefined {
+		return this.storage.getStore();
+	}
+
+	// Binds a callback (e.g. a scheduled job) to the workspace active when it was registered
+	bind<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+		return AsyncLocalStorage.bind(fn);
+	}
+}
+
+export const workspaceContext = new WorkspaceContextStore();
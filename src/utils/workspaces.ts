@@ -0,0 +1,103 @@
+import path from "path";
+import { config } from "@/config";
+import { parseSchedule, GitHubService, githubService } from "@/services";
+import { Scheduler } from "@/utils/scheduler";
+import type { WorkspaceContext } from "@/utils/workspaceContext";
+
+export interface WorkspaceLoadFailure {
+	schedulePath: string;
+	error: string;
+}
+
+export interface WorkspaceLoadResult {
+	workspaces: WorkspaceContext[];
+	// Schedules that could not become a workspace; the others still run
+	failures: WorkspaceLoadFailure[];
+}
+
+export class WorkspaceManager {
+	// Workspaces on the same repo with the same token share a client, and with it a circuit breaker
+	private clients = new Map<string, GitHubService>();
+
+	private clientFor(repo: string, token: string): GitHubService {
+		if (repo === config.GITHUB_REPO && token === config.GITHUB_PAT) {
+			return githubService;
+		}
+
+		const key = `${repo}\n${token}`;
+		let client = this.clients.get(key);
+		if (!client) {
+			client = new GitHubService({ token, repo });
+			this.clients.set(key, client);
+		}
+		return client;
+	}
+
+	private build(schedulePath: string, isOnlySchedule: boolean): WorkspaceContext {
+		const result = parseSchedule(schedulePath);
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+
+		const settings = result.schedule.workspace;
+		const name = settings?.name ?? path.basename(schedulePath, path.extname(schedulePath));
+
+		let token = config.GITHUB_PAT;
+		if (settings?.tokenEnv) {
+			const value = process.env[settings.tokenEnv];
+			if (!value) {
+				throw new Error(`Environment variable ${settings.tokenEnv} (workspace.tokenEnv) is not set`);
+			}
+			token = value;
+		}
+
+		const github = this.clientFor(settings?.repo ?? config.GITHUB_REPO, token);
+
+		return {
+			name,
+			schedulePath,
+			board: settings?.board ?? { title: "Task Manager" },
+			// A lone schedule keeps using data/ directly, as before workspaces existed
+			stateNamespace: settings?.stateNamespace ?? (isOnlySchedule ? "" : name),
+			github,
+			tracker: github,
+			scheduler: new Scheduler(),
+			timezone: null,
+		};
+	}
+
+	/**
+	 * Builds one workspace per SCHEDULE_PATHS entry.
+	 * Names and state namespaces must be unique; a schedule that clashes or fails to load is reported
+	 * in `failures` instead of stopping the rest.
+	 */
+	load(schedulePaths: string[] = config.SCHEDULE_PATHS): WorkspaceLoadResult {
+		const result: WorkspaceLoadResult = { workspaces: [], failures: [] };
+
+		for (const entry of schedulePaths) {
+			const schedulePath = path.resolve(entry);
+
+			try {
+				const workspace = this.build(schedulePath, schedulePaths.length === 1);
+
+				const clash = result.workspaces.find(
+					(other) => other.name === workspace.name || other.stateNamespace === workspace.stateNamespace
+				);
+				if (clash) {
+					throw new Error(
+						`Workspace name or state namespace clashes with ${clash.schedulePath}; ` +
+							"set workspace.name and workspace.stateNamespace to tell them apart"
+					);
+				}
+
+				result.workspaces.push(workspace);
+			} catch (error) {
+				result.failures.push({ schedulePath, error: (error as Error).message });
+			}
+		}
+
+		return result;
+	}
+}
+
+export const workspaceManager = new WorkspaceManager();